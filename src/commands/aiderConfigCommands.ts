@@ -0,0 +1,25 @@
+/**
+ * Aider Config Commands - Reload the effective Aider config shown in the sidebar
+ */
+
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderConfigTreeProvider } from '../providers/AiderConfigTreeProvider';
+
+/**
+ * Register refresh for the Aider Config view
+ */
+export function registerAiderConfigCommands(
+  _context: vscode.ExtensionContext,
+  configTree: AiderConfigTreeProvider
+): vscode.Disposable {
+  console.log('⚡ Registering Aider config commands...');
+
+  const commandDisposable = vscode.commands.registerCommand(
+    EXTENSION_CONFIG.COMMANDS.CONFIG_REFRESH,
+    () => configTree.refresh()
+  );
+
+  console.log('✅ Aider config commands registered successfully');
+  return commandDisposable;
+}
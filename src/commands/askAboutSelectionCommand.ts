@@ -0,0 +1,54 @@
+/**
+ * Ask About Selection Command - Sends an instruction about the selected code to Aider
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+
+/**
+ * Implementation of the askAboutSelection command
+ * Asks for the instruction, then hands file, range and instruction to the chat provider
+ */
+export async function askAboutSelectionCommand(provider: AiderChatViewProvider): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.isUntitled) {
+    vscode.window.showErrorMessage(EXTENSION_CONFIG.MESSAGES.NO_EDITOR);
+    return;
+  }
+
+  const selection = editor.selection;
+  const fileName = path.basename(editor.document.fileName);
+  const where = selection.isEmpty
+    ? `the current line of ${fileName}`
+    : `the selection in ${fileName}`;
+
+  const instruction = await vscode.window.showInputBox({
+    prompt: `Ask Aider about ${where}`,
+    placeHolder: 'e.g. explain this, or handle the empty-list case'
+  });
+  if (!instruction?.trim()) {
+    return;
+  }
+
+  await provider.askAboutSelection(editor.document, selection, instruction.trim());
+}
+
+/**
+ * Register the askAboutSelection command with VS Code
+ */
+export function registerAskAboutSelectionCommand(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider
+): vscode.Disposable {
+  console.log('⚡ Registering askAboutSelection command...');
+
+  const commandDisposable = vscode.commands.registerCommand(
+    EXTENSION_CONFIG.COMMANDS.ASK_ABOUT_SELECTION,
+    () => askAboutSelectionCommand(provider)
+  );
+
+  console.log('✅ askAboutSelection command registered successfully');
+  return commandDisposable;
+}
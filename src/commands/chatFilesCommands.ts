@@ -0,0 +1,59 @@
+/**
+ * Chat Files Commands - Add, add read-only and drop files in the Aider chat
+ * Invoked from the explorer, the editor title bar and editor tab context menus
+ */
+
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { ChatFileAction } from '../types';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+
+/**
+ * Implementation of the add/read-only/drop commands
+ * @param uri Clicked resource (explorer, editor title or tab)
+ * @param uris All selected resources in the explorer
+ */
+export async function chatFilesCommand(
+  provider: AiderChatViewProvider,
+  action: ChatFileAction,
+  uri?: vscode.Uri,
+  uris?: vscode.Uri[]
+): Promise<void> {
+  const targets = uris?.length ? uris : uri ? [uri] : activeEditorUri();
+  if (targets.length === 0) {
+    vscode.window.showErrorMessage(EXTENSION_CONFIG.MESSAGES.NO_EDITOR);
+    return;
+  }
+
+  await provider.manageChatFiles(action, targets);
+}
+
+/**
+ * Register the add/read-only/drop commands with VS Code
+ */
+export function registerChatFilesCommands(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider
+): vscode.Disposable {
+  console.log('⚡ Registering chat file commands...');
+
+  const { ADD_FILE, ADD_FILE_READ_ONLY, DROP_FILE } = EXTENSION_CONFIG.COMMANDS;
+  const register = (command: string, action: ChatFileAction): vscode.Disposable =>
+    vscode.commands.registerCommand(command, (uri?: vscode.Uri, uris?: vscode.Uri[]) =>
+      chatFilesCommand(provider, action, uri, uris)
+    );
+
+  const commandDisposable = vscode.Disposable.from(
+    register(ADD_FILE, 'add'),
+    register(ADD_FILE_READ_ONLY, 'readOnly'),
+    register(DROP_FILE, 'drop')
+  );
+
+  console.log('✅ chat file commands registered successfully');
+  return commandDisposable;
+}
+
+function activeEditorUri(): vscode.Uri[] {
+  const document = vscode.window.activeTextEditor?.document;
+  return document && !document.isUntitled ? [document.uri] : [];
+}
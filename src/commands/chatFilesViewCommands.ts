@@ -0,0 +1,46 @@
+/**
+ * Chat Files View Commands - Inline actions of the Chat Files tree view
+ */
+
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+import { ChatFileItem } from '../providers/ChatFilesTreeProvider';
+
+/**
+ * Register refresh, open, drop and editable/read-only toggles for the tree view
+ */
+export function registerChatFilesViewCommands(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider
+): vscode.Disposable {
+  console.log('⚡ Registering chat files view commands...');
+
+  const {
+    CHAT_FILES_REFRESH,
+    CHAT_FILES_OPEN,
+    CHAT_FILES_DROP,
+    CHAT_FILES_MAKE_READ_ONLY,
+    CHAT_FILES_MAKE_EDITABLE
+  } = EXTENSION_CONFIG.COMMANDS;
+
+  const commandDisposable = vscode.Disposable.from(
+    vscode.commands.registerCommand(CHAT_FILES_REFRESH, () => provider.refreshChatFiles()),
+    vscode.commands.registerCommand(CHAT_FILES_OPEN, (item: ChatFileItem) =>
+      vscode.window.showTextDocument(item.resourceUri as vscode.Uri)
+    ),
+    vscode.commands.registerCommand(CHAT_FILES_DROP, (item: ChatFileItem) =>
+      provider.manageChatFiles('drop', [item.resourceUri as vscode.Uri], item.session.id)
+    ),
+    // Aider moves a file between the two lists when it is added the other way
+    vscode.commands.registerCommand(CHAT_FILES_MAKE_READ_ONLY, (item: ChatFileItem) =>
+      provider.manageChatFiles('readOnly', [item.resourceUri as vscode.Uri], item.session.id)
+    ),
+    vscode.commands.registerCommand(CHAT_FILES_MAKE_EDITABLE, (item: ChatFileItem) =>
+      provider.manageChatFiles('add', [item.resourceUri as vscode.Uri], item.session.id)
+    )
+  );
+
+  console.log('✅ chat files view commands registered successfully');
+  return commandDisposable;
+}
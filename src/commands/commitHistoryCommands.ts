@@ -0,0 +1,127 @@
+/**
+ * Commit History Commands - Diff, undo and squash the commits Aider made in a session
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+import { SnapshotContentProvider } from '../providers/SnapshotContentProvider';
+import { CommitFileItem, CommitItem } from '../providers/CommitHistoryTreeProvider';
+import { CommitHistoryService } from '../services/CommitHistoryService';
+import { showFileAtRevision } from '../utils/git';
+
+/**
+ * Undo a commit: /undo in Aider for the latest one, otherwise a git revert after confirmation
+ */
+export async function undoCommitCommand(
+  provider: AiderChatViewProvider,
+  history: CommitHistoryService,
+  item: CommitItem
+): Promise<void> {
+  const { commit } = item;
+  try {
+    if ((await history.isLatest(commit)) && provider.undoLastCommit(commit.sessionId)) {
+      return;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `${commit.shortHash} is not the latest commit or its Aider session is not running. ` +
+        'Undo it with a new git revert commit?',
+      { modal: true },
+      'Revert'
+    );
+    if (choice !== 'Revert') {
+      return;
+    }
+
+    await history.revert(commit);
+    const session = provider.sessions.getSession(commit.sessionId);
+    if (session) {
+      await history.refresh(session);
+    }
+    vscode.window.showInformationMessage(`Reverted ${commit.shortHash} ${commit.message}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to undo ${commit.shortHash}: ${error}`);
+  }
+}
+
+/**
+ * Squash all of the active session's Aider commits into one, after confirmation
+ */
+export async function squashCommitsCommand(
+  provider: AiderChatViewProvider,
+  history: CommitHistoryService
+): Promise<void> {
+  const session = provider.sessions.activeSession;
+  if (!session) {
+    vscode.window.showErrorMessage('No active Aider session.');
+    return;
+  }
+
+  const count = history.getCommits(session.id).length;
+  const choice = await vscode.window.showWarningMessage(
+    `Squash ${count} Aider commits from ${session.name} into one commit?`,
+    { modal: true },
+    'Squash'
+  );
+  if (choice !== 'Squash') {
+    return;
+  }
+
+  try {
+    const squashed = await history.squash(session);
+    vscode.window.showInformationMessage(`Squashed ${squashed.length} Aider commits.`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to squash Aider commits: ${error}`);
+  }
+}
+
+/**
+ * Register refresh, diff, undo and squash for the Aider Commits view
+ */
+export function registerCommitHistoryCommands(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider,
+  history: CommitHistoryService,
+  snapshots: SnapshotContentProvider
+): vscode.Disposable {
+  console.log('⚡ Registering commit history commands...');
+
+  const { COMMITS_REFRESH, COMMITS_OPEN_DIFF, COMMITS_UNDO, COMMITS_SQUASH } =
+    EXTENSION_CONFIG.COMMANDS;
+
+  const commandDisposable = vscode.Disposable.from(
+    vscode.commands.registerCommand(COMMITS_REFRESH, () => {
+      const session = provider.sessions.activeSession;
+      if (session) {
+        history.refresh(session);
+      }
+    }),
+    vscode.commands.registerCommand(COMMITS_OPEN_DIFF, async (item: CommitFileItem) => {
+      const { commit, file } = item;
+      try {
+        const fileName = path.basename(file);
+        const [before, after] = await Promise.all([
+          showFileAtRevision(commit.workspaceFolder, `${commit.hash}~1`, file),
+          showFileAtRevision(commit.workspaceFolder, commit.hash, file)
+        ]);
+        await vscode.commands.executeCommand(
+          'vscode.diff',
+          snapshots.store(fileName, before ?? ''),
+          snapshots.store(fileName, after ?? ''),
+          `${fileName} (${commit.shortHash})`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(`Cannot show ${commit.shortHash}: ${error}`);
+      }
+    }),
+    vscode.commands.registerCommand(COMMITS_UNDO, (item: CommitItem) =>
+      undoCommitCommand(provider, history, item)
+    ),
+    vscode.commands.registerCommand(COMMITS_SQUASH, () => squashCommitsCommand(provider, history))
+  );
+
+  console.log('✅ commit history commands registered successfully');
+  return commandDisposable;
+}
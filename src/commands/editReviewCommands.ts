@@ -0,0 +1,173 @@
+/**
+ * Edit Review Commands - Diff, accept and revert Aider's edits per file or per turn
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { EditReviewFile, EditTurn } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+import { SnapshotContentProvider } from '../providers/SnapshotContentProvider';
+import { EditFileItem, EditTurnItem } from '../providers/EditReviewTreeProvider';
+import { EditReviewService } from '../services/EditReviewService';
+
+// Tree items, or the file shown in the active (diff) editor
+type ReviewTarget = EditTurnItem | EditFileItem | vscode.Uri | undefined;
+
+/**
+ * Open the diff of one edited file against its content before the turn
+ */
+export async function openEditDiff(
+  review: EditReviewService,
+  snapshots: SnapshotContentProvider,
+  turn: EditTurn,
+  file: EditReviewFile
+): Promise<void> {
+  try {
+    const original = await review.getOriginalContent(turn, file);
+    const fileName = path.basename(file.path);
+    const beforeUri = snapshots.store(fileName, original ?? '');
+    const afterUri = vscode.Uri.file(path.resolve(turn.workspaceFolder, file.path));
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      beforeUri,
+      afterUri,
+      `${fileName} (Aider edit)`,
+      { preview: false }
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Cannot show Aider's edit to ${file.path}: ${error}`);
+  }
+}
+
+/**
+ * Open the review of a finished turn: a diff per edited file plus accept/revert for the whole turn
+ */
+export async function reviewTurn(
+  review: EditReviewService,
+  snapshots: SnapshotContentProvider,
+  turn: EditTurn
+): Promise<void> {
+  // Inline edits show their diff in the editor they came from
+  if (
+    turn.origin === 'inline' ||
+    !vscode.workspace.getConfiguration('aider').get<boolean>('reviewEdits', true)
+  ) {
+    return;
+  }
+
+  for (const file of turn.files) {
+    await openEditDiff(review, snapshots, turn, file);
+  }
+
+  const count = turn.files.length;
+  const choice = await vscode.window.showInformationMessage(
+    `Aider edited ${count} file${count === 1 ? '' : 's'}${turn.commitHash ? ` (commit ${turn.commitHash})` : ''}.`,
+    'Accept All',
+    'Revert All'
+  );
+  if (choice === 'Accept All') {
+    review.accept(turn);
+  } else if (choice === 'Revert All') {
+    await revertEdits(review, turn);
+  }
+}
+
+/**
+ * Register the edit review commands and open a review whenever a turn finishes
+ */
+export function registerEditReviewCommands(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider,
+  snapshots: SnapshotContentProvider
+): vscode.Disposable {
+  console.log('⚡ Registering edit review commands...');
+
+  const review = provider.edits;
+  const { REVIEW_OPEN_DIFF, REVIEW_ACCEPT, REVIEW_REVERT, REVIEW_SHOW_TURN } =
+    EXTENSION_CONFIG.COMMANDS;
+
+  review.onTurnReady(turn => {
+    reviewTurn(review, snapshots, turn);
+  });
+  review.onChanged(() => {
+    vscode.commands.executeCommand(
+      'setContext',
+      'aider.editsPending',
+      review.pendingTurns.length > 0
+    );
+  });
+
+  const commandDisposable = vscode.Disposable.from(
+    vscode.commands.registerCommand(REVIEW_OPEN_DIFF, (item: EditFileItem) =>
+      openEditDiff(review, snapshots, item.turn, item.file)
+    ),
+    vscode.commands.registerCommand(REVIEW_ACCEPT, (target: ReviewTarget) => {
+      const resolved = resolveTarget(review, target);
+      if (resolved) {
+        review.accept(resolved.turn, resolved.file);
+      }
+    }),
+    vscode.commands.registerCommand(REVIEW_REVERT, async (target: ReviewTarget) => {
+      const resolved = resolveTarget(review, target);
+      if (resolved) {
+        await revertEdits(review, resolved.turn, resolved.file);
+      }
+    }),
+    // Hover link on changed code: back to the session and the diff of that turn
+    vscode.commands.registerCommand(REVIEW_SHOW_TURN, async (turnId: string, fsPath: string) => {
+      const turn = review.pendingTurns.find(candidate => candidate.id === turnId);
+      if (!turn) {
+        return;
+      }
+      if (provider.sessions.getSession(turn.sessionId)) {
+        provider.sessions.setActiveSession(turn.sessionId);
+      }
+      await vscode.commands.executeCommand(`${EXTENSION_CONFIG.VIEW_TYPE}.focus`);
+
+      const file = turn.files.find(
+        candidate => path.resolve(turn.workspaceFolder, candidate.path) === fsPath
+      );
+      if (file) {
+        await openEditDiff(review, snapshots, turn, file);
+      }
+    })
+  );
+
+  console.log('✅ edit review commands registered successfully');
+  return commandDisposable;
+}
+
+async function revertEdits(
+  review: EditReviewService,
+  turn: EditTurn,
+  file?: EditReviewFile
+): Promise<void> {
+  try {
+    await review.revert(turn, file);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to revert Aider's edit: ${error}`);
+  }
+}
+
+/**
+ * Map a command argument to the turn, and optionally the file, it acts on
+ */
+function resolveTarget(
+  review: EditReviewService,
+  target: ReviewTarget
+): { turn: EditTurn; file?: EditReviewFile } | undefined {
+  if (target instanceof EditFileItem) {
+    return { turn: target.turn, file: target.file };
+  }
+  if (target instanceof EditTurnItem) {
+    return { turn: target.turn };
+  }
+
+  const uri = target || vscode.window.activeTextEditor?.document.uri;
+  const found = uri?.scheme === 'file' ? review.findPendingFile(uri.fsPath) : undefined;
+  if (!found) {
+    vscode.window.showInformationMessage('No pending Aider edit for this file.');
+  }
+  return found;
+}
@@ -0,0 +1,133 @@
+/**
+ * Fix With Aider Commands - Send diagnostics to Aider as a prompt
+ * For the problems under the cursor, in one file, or in the whole workspace
+ */
+
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+import { isFixable } from '../providers/FixWithAiderCodeActionProvider';
+import { toSessionPath } from '../utils/paths';
+
+type FileProblems = [vscode.Uri, vscode.Diagnostic[]];
+
+/**
+ * Add the files to the chat and ask Aider to fix their problems
+ */
+export async function fixWithAiderCommand(
+  provider: AiderChatViewProvider,
+  problems: FileProblems[]
+): Promise<void> {
+  const session = provider.sessions.activeSession;
+  if (!session) {
+    vscode.window.showErrorMessage('No active Aider session. Start a new chat first.');
+    return;
+  }
+
+  const { CONTEXT_LINES, MAX_PROBLEMS } = EXTENSION_CONFIG.FIX_WITH_AIDER;
+  const withProblems = problems.filter(([, diagnostics]) => diagnostics.length > 0);
+  if (withProblems.length === 0) {
+    vscode.window.showInformationMessage('No errors or warnings to fix.');
+    return;
+  }
+
+  const sections: string[] = [];
+  const uris: vscode.Uri[] = [];
+  let count = 0;
+  for (const [uri, diagnostics] of withProblems) {
+    if (count >= MAX_PROBLEMS) {
+      break;
+    }
+    const document = await vscode.workspace.openTextDocument(uri);
+    const filePath = toSessionPath(session.workspaceFolder, uri.fsPath);
+    uris.push(uri);
+
+    diagnostics.slice(0, MAX_PROBLEMS - count).forEach(diagnostic => {
+      count++;
+      sections.push(
+        [
+          `${filePath}:${diagnostic.range.start.line + 1}:${diagnostic.range.start.character + 1} ` +
+            describeDiagnostic(diagnostic),
+          ...surroundingLines(document, diagnostic.range, CONTEXT_LINES)
+        ].join('\n')
+      );
+    });
+  }
+
+  const total = withProblems.reduce((sum, [, diagnostics]) => sum + diagnostics.length, 0);
+  const header =
+    count === 1
+      ? 'Fix this problem:'
+      : `Fix these ${count} problems${total > count ? ` (of ${total})` : ''}:`;
+  await provider.sendAboutFiles(uris, [header, ...sections].join('\n\n'));
+}
+
+/**
+ * Register the quick fix, file and workspace variants of Fix with Aider
+ */
+export function registerFixWithAiderCommands(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider
+): vscode.Disposable {
+  console.log('⚡ Registering fix with Aider commands...');
+
+  const { FIX_WITH_AIDER, FIX_FILE_WITH_AIDER, FIX_WORKSPACE_WITH_AIDER } =
+    EXTENSION_CONFIG.COMMANDS;
+
+  const commandDisposable = vscode.Disposable.from(
+    vscode.commands.registerCommand(
+      FIX_WITH_AIDER,
+      (uri: vscode.Uri, diagnostics: vscode.Diagnostic[]) =>
+        fixWithAiderCommand(provider, [[uri, diagnostics]])
+    ),
+    vscode.commands.registerCommand(FIX_FILE_WITH_AIDER, (uri?: vscode.Uri) => {
+      const target = uri || vscode.window.activeTextEditor?.document.uri;
+      if (!target) {
+        vscode.window.showErrorMessage(EXTENSION_CONFIG.MESSAGES.NO_EDITOR);
+        return;
+      }
+      return fixWithAiderCommand(provider, [
+        [target, vscode.languages.getDiagnostics(target).filter(isFixable)]
+      ]);
+    }),
+    vscode.commands.registerCommand(FIX_WORKSPACE_WITH_AIDER, () =>
+      fixWithAiderCommand(
+        provider,
+        vscode.languages
+          .getDiagnostics()
+          .filter(([uri]) => uri.scheme === 'file')
+          .map(([uri, diagnostics]): FileProblems => [uri, diagnostics.filter(isFixable)])
+      )
+    )
+  );
+
+  console.log('✅ fix with Aider commands registered successfully');
+  return commandDisposable;
+}
+
+function describeDiagnostic(diagnostic: vscode.Diagnostic): string {
+  const severity = diagnostic.severity === vscode.DiagnosticSeverity.Error ? 'error' : 'warning';
+  const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+  const origin = [diagnostic.source, code].filter(part => part !== undefined && part !== '');
+  return `${severity}${origin.length ? ` [${origin.join(' ')}]` : ''}: ${diagnostic.message}`;
+}
+
+/**
+ * The problem's lines plus some context, numbered, with the problem lines marked
+ */
+function surroundingLines(
+  document: vscode.TextDocument,
+  range: vscode.Range,
+  contextLines: number
+): string[] {
+  const first = Math.max(0, range.start.line - contextLines);
+  const last = Math.min(document.lineCount - 1, range.end.line + contextLines);
+  const width = String(last + 1).length;
+
+  const lines: string[] = [];
+  for (let line = first; line <= last; line++) {
+    const marker = line >= range.start.line && line <= range.end.line ? '>' : ' ';
+    lines.push(`${marker} ${String(line + 1).padStart(width)} | ${document.lineAt(line).text}`);
+  }
+  return lines;
+}
@@ -4,3 +4,39 @@
  */
 
 export { startAiderCommand, registerStartAiderCommand } from './startAiderCommand';
+export {
+  resetPromptPoliciesCommand,
+  registerResetPromptPoliciesCommand
+} from './resetPromptPoliciesCommand';
+export { interruptCommand, registerInterruptCommand } from './interruptCommand';
+export { restartSessionCommand, registerRestartSessionCommand } from './restartSessionCommand';
+export { quickAskCommand, registerQuickAskCommand } from './quickAskCommand';
+export { chatFilesCommand, registerChatFilesCommands } from './chatFilesCommands';
+export { registerChatFilesViewCommands } from './chatFilesViewCommands';
+export {
+  askAboutSelectionCommand,
+  registerAskAboutSelectionCommand
+} from './askAboutSelectionCommand';
+export { openEditDiff, reviewTurn, registerEditReviewCommands } from './editReviewCommands';
+export {
+  undoCommitCommand,
+  squashCommitsCommand,
+  registerCommitHistoryCommands
+} from './commitHistoryCommands';
+export { fixWithAiderCommand, registerFixWithAiderCommands } from './fixWithAiderCommands';
+export {
+  sendTerminalSelectionCommand,
+  sendTaskOutputCommand,
+  registerSendOutputCommands
+} from './sendOutputCommands';
+export { runTestsCommand, registerRunTestsCommand } from './runTestsCommand';
+export { symbolActionCommand, registerSymbolActionCommand } from './symbolActionCommand';
+export { inlineEditCommand, registerInlineEditCommands } from './inlineEditCommand';
+export { selectModelCommand, registerSelectModelCommand } from './selectModelCommand';
+export {
+  refreshOllamaModelsCommand,
+  pullOllamaModelCommand,
+  deleteOllamaModelCommand,
+  registerOllamaCommands
+} from './ollamaCommands';
+export { registerAiderConfigCommands } from './aiderConfigCommands';
@@ -0,0 +1,130 @@
+/**
+ * Inline Edit Command - Type an instruction in the editor and get Aider's edit back as an inline diff
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { EditTurn } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+import { InlineDiffProvider } from '../providers/InlineDiffProvider';
+import { toSessionPath } from '../utils/paths';
+
+/**
+ * Implementation of the inlineEdit command
+ * Applies the instruction to the selection, or the whole file, without opening the chat view
+ */
+export async function inlineEditCommand(provider: AiderChatViewProvider): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.uri.scheme !== 'file') {
+    vscode.window.showErrorMessage(EXTENSION_CONFIG.MESSAGES.NO_EDITOR);
+    return;
+  }
+
+  const { document, selection } = editor;
+  const fileName = path.basename(document.fileName);
+  const instruction = await vscode.window.showInputBox({
+    prompt: selection.isEmpty
+      ? `Edit ${fileName} with Aider`
+      : `Edit the selected lines of ${fileName} with Aider`,
+    placeHolder: 'e.g. add input validation, or convert to async/await'
+  });
+  if (!instruction?.trim()) {
+    return;
+  }
+
+  // Aider edits the file on disk
+  if (document.isDirty) {
+    await document.save();
+  }
+
+  const session = await provider.ensureRunningSession();
+  if (!session) {
+    return;
+  }
+
+  const filePath = toSessionPath(session.workspaceFolder, document.uri.fsPath);
+  const scope = selection.isEmpty
+    ? filePath
+    : `lines ${selection.start.line + 1}-${selection.end.line + 1} of ${filePath}`;
+  const prompt = `Edit ${scope}: ${instruction.trim()}. Only change ${
+    selection.isEmpty ? 'that file' : 'those lines'
+  }.`;
+
+  const turnId = provider.edits.reserveInlineTurn();
+  const turnFinished = provider.edits.waitForTurn(session.id, turnId);
+  let sent = false;
+  try {
+    sent = await provider.sendAboutFiles([document.uri], prompt, false, turnId);
+  } finally {
+    if (!sent) {
+      // Nothing will await the turn now
+      turnFinished.catch(() => undefined);
+      provider.edits.abandonTurn(turnId, 'The edit could not be sent to Aider');
+    }
+  }
+  if (!sent) {
+    return;
+  }
+
+  let turn: EditTurn;
+  try {
+    turn = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Aider is editing ${fileName}...`,
+        cancellable: true
+      },
+      (_progress, token) => {
+        token.onCancellationRequested(() => provider.interruptSession(session.id));
+        return turnFinished;
+      }
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Inline edit of ${fileName} did not finish: ${error instanceof Error ? error.message : error}`
+    );
+    return;
+  }
+
+  if (turn.files.length === 0) {
+    vscode.window.showInformationMessage('Aider did not change any files.');
+  }
+}
+
+/**
+ * Register the inline edit command and the accept/reject actions of its inline diff
+ */
+export function registerInlineEditCommands(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider,
+  inlineDiffs: InlineDiffProvider
+): vscode.Disposable {
+  console.log('⚡ Registering inline edit commands...');
+
+  const { INLINE_EDIT, INLINE_EDIT_ACCEPT, INLINE_EDIT_REJECT } = EXTENSION_CONFIG.COMMANDS;
+
+  const commandDisposable = vscode.Disposable.from(
+    vscode.commands.registerCommand(INLINE_EDIT, () => inlineEditCommand(provider)),
+    vscode.commands.registerCommand(INLINE_EDIT_ACCEPT, (turnId: string, fsPath: string) => {
+      const found = inlineDiffs.find(turnId, fsPath);
+      if (found) {
+        provider.edits.accept(found.turn, found.file);
+      }
+    }),
+    vscode.commands.registerCommand(INLINE_EDIT_REJECT, async (turnId: string, fsPath: string) => {
+      const found = inlineDiffs.find(turnId, fsPath);
+      if (!found) {
+        return;
+      }
+      try {
+        await provider.edits.revert(found.turn, found.file);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to reject Aider's edit: ${error}`);
+      }
+    })
+  );
+
+  console.log('✅ inline edit commands registered successfully');
+  return commandDisposable;
+}
@@ -0,0 +1,33 @@
+/**
+ * Interrupt Command - Stops Aider's current answer with Ctrl-C
+ */
+
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+
+/**
+ * Implementation of the interrupt command
+ * Targets the active session shown in the chat view
+ */
+export async function interruptCommand(provider: AiderChatViewProvider): Promise<void> {
+  await provider.interruptSession();
+}
+
+/**
+ * Register the interrupt command with VS Code
+ */
+export function registerInterruptCommand(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider
+): vscode.Disposable {
+  console.log('⚡ Registering interrupt command...');
+
+  const commandDisposable = vscode.commands.registerCommand(
+    EXTENSION_CONFIG.COMMANDS.INTERRUPT,
+    () => interruptCommand(provider)
+  );
+
+  console.log('✅ interrupt command registered successfully');
+  return commandDisposable;
+}
@@ -0,0 +1,165 @@
+/**
+ * Ollama Commands - Discover, pull and delete the models on the Ollama server
+ */
+
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+import { MissingOllamaModelItem, OllamaModelItem } from '../providers/OllamaModelsTreeProvider';
+import { OllamaDiscoveryService } from '../services/OllamaDiscoveryService';
+import { deleteOllamaModel, formatModelSize, pullOllamaModel } from '../utils/ollama';
+
+/**
+ * Implementation of the Ollama refresh command
+ */
+export async function refreshOllamaModelsCommand(discovery: OllamaDiscoveryService): Promise<void> {
+  try {
+    const models = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Window,
+        title: `Aider: Querying Ollama at ${discovery.apiBase}`
+      },
+      () => discovery.refresh()
+    );
+    vscode.window.showInformationMessage(
+      `Found ${models.length} Ollama model${models.length === 1 ? '' : 's'} at ${discovery.apiBase}.`
+    );
+  } catch (error) {
+    await showUnreachable(discovery, error);
+  }
+}
+
+/**
+ * Implementation of the Ollama pull command
+ * Pulls the missing model of a tree item, or asks for a model name
+ */
+export async function pullOllamaModelCommand(
+  discovery: OllamaDiscoveryService,
+  item?: MissingOllamaModelItem
+): Promise<void> {
+  const name =
+    item?.name ||
+    (
+      await vscode.window.showInputBox({
+        prompt: `Model to pull onto the Ollama server at ${discovery.apiBase}`,
+        placeHolder: 'e.g. qwen2.5-coder:7b'
+      })
+    )?.trim();
+  if (!name) {
+    return;
+  }
+
+  try {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Pulling ${name}`,
+        cancellable: true
+      },
+      (progress, token) => {
+        // Ollama reports each layer separately; the bar follows the bytes of all of them
+        const layers = new Map<string, { total: number; completed: number }>();
+        let reported = 0;
+        const pull = pullOllamaModel(discovery.apiBase, name, update => {
+          if (update.digest && update.total) {
+            layers.set(update.digest, { total: update.total, completed: update.completed || 0 });
+          }
+          const sizes = Array.from(layers.values());
+          const total = sizes.reduce((sum, layer) => sum + layer.total, 0);
+          const completed = sizes.reduce((sum, layer) => sum + layer.completed, 0);
+          const percent = total ? Math.floor((completed / total) * 100) : 0;
+          progress.report({
+            message: total
+              ? `${update.status} (${percent}% of ${formatModelSize(total)})`
+              : update.status,
+            increment: Math.max(percent - reported, 0)
+          });
+          reported = Math.max(percent, reported);
+        });
+        token.onCancellationRequested(() => pull.cancel());
+        return pull.done;
+      }
+    );
+    vscode.window.showInformationMessage(`Pulled ${name} onto ${discovery.apiBase}.`);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to pull ${name}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  await discovery.refresh().catch(() => undefined);
+}
+
+/**
+ * Implementation of the Ollama delete command
+ */
+export async function deleteOllamaModelCommand(
+  discovery: OllamaDiscoveryService,
+  item: OllamaModelItem
+): Promise<void> {
+  if (!item) {
+    return;
+  }
+
+  const name = item.model.name;
+  const choice = await vscode.window.showWarningMessage(
+    `Delete ${name} (${formatModelSize(item.model.size)}) from the Ollama server at ${discovery.apiBase}?`,
+    { modal: true },
+    'Delete'
+  );
+  if (choice !== 'Delete') {
+    return;
+  }
+
+  try {
+    await deleteOllamaModel(discovery.apiBase, name);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to delete ${name}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  await discovery.refresh().catch(() => undefined);
+}
+
+/**
+ * Register the Ollama commands and discover the installed models once at startup
+ */
+export function registerOllamaCommands(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider,
+  discovery: OllamaDiscoveryService
+): vscode.Disposable {
+  console.log('⚡ Registering Ollama commands...');
+
+  discovery.refresh().catch(error => {
+    console.log(`🦙 Ollama discovery failed: ${error}`);
+    // Only worth interrupting for when new sessions would start on an Ollama model
+    if (provider.models.getDefaultModel().startsWith(EXTENSION_CONFIG.OLLAMA.MODEL_PREFIX)) {
+      showUnreachable(discovery, error);
+    }
+  });
+
+  const { OLLAMA_REFRESH, OLLAMA_PULL, OLLAMA_DELETE } = EXTENSION_CONFIG.COMMANDS;
+  const commandDisposable = vscode.Disposable.from(
+    vscode.commands.registerCommand(OLLAMA_REFRESH, () => refreshOllamaModelsCommand(discovery)),
+    vscode.commands.registerCommand(OLLAMA_PULL, (item?: MissingOllamaModelItem) =>
+      pullOllamaModelCommand(discovery, item)
+    ),
+    vscode.commands.registerCommand(OLLAMA_DELETE, (item: OllamaModelItem) =>
+      deleteOllamaModelCommand(discovery, item)
+    )
+  );
+
+  console.log('✅ Ollama commands registered successfully');
+  return commandDisposable;
+}
+
+async function showUnreachable(discovery: OllamaDiscoveryService, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+  const choice = await vscode.window.showWarningMessage(
+    `Ollama at ${discovery.apiBase} is unreachable (${message}). Set OLLAMA_API_BASE to your Ollama server.`,
+    'Retry'
+  );
+  if (choice === 'Retry') {
+    await refreshOllamaModelsCommand(discovery);
+  }
+}
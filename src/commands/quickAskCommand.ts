@@ -0,0 +1,170 @@
+/**
+ * Quick Ask Command - One-shot Aider request for the active file or selection
+ * Runs outside the chat sessions and shows the reply or the resulting diff
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { QuickAskResult } from '../types';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+import { SnapshotContentProvider } from '../providers/SnapshotContentProvider';
+import { QuickAskService } from '../services/QuickAskService';
+
+/**
+ * Implementation of the quickAsk command
+ */
+export async function quickAskCommand(
+  chatProvider: AiderChatViewProvider,
+  snapshots: SnapshotContentProvider
+): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showErrorMessage(EXTENSION_CONFIG.MESSAGES.NO_EDITOR);
+    return;
+  }
+
+  const document = editor.document;
+  const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+  if (document.isUntitled || !folder) {
+    vscode.window.showErrorMessage('Quick ask needs a saved file inside the workspace.');
+    return;
+  }
+
+  const relativePath = path.relative(folder.uri.fsPath, document.uri.fsPath);
+  const question = await vscode.window.showInputBox({
+    prompt: editor.selection.isEmpty
+      ? `Ask Aider about ${relativePath}`
+      : `Ask Aider about the selection in ${relativePath}`,
+    placeHolder: 'e.g. explain this, or add input validation'
+  });
+  if (!question?.trim()) {
+    return;
+  }
+
+  // Aider edits the file on disk
+  if (document.isDirty) {
+    await document.save();
+  }
+  const before = document.getText();
+
+  let result: QuickAskResult;
+  try {
+    result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Aider: Quick ask',
+        cancellable: true
+      },
+      (progress, token) =>
+        new QuickAskService().run(
+          {
+            model: chatProvider.activeModel,
+            workspaceFolder: folder.uri.fsPath,
+            message: buildMessage(question, relativePath, editor),
+            files: [relativePath]
+          },
+          line => progress.report({ message: line.slice(0, 80) }),
+          token
+        )
+    );
+  } catch (error) {
+    // e.g. aider is not on PATH
+    vscode.window.showErrorMessage(
+      `Could not start Aider for the quick ask: ${error instanceof Error ? error.message : error}`
+    );
+    return;
+  }
+
+  await showResult(result, document, before, folder.uri.fsPath, snapshots);
+}
+
+/**
+ * Register the quickAsk command with VS Code
+ */
+export function registerQuickAskCommand(
+  _context: vscode.ExtensionContext,
+  chatProvider: AiderChatViewProvider,
+  snapshots: SnapshotContentProvider
+): vscode.Disposable {
+  console.log('⚡ Registering quickAsk command...');
+
+  const commandDisposable = vscode.commands.registerCommand(
+    EXTENSION_CONFIG.COMMANDS.QUICK_ASK,
+    () => quickAskCommand(chatProvider, snapshots)
+  );
+
+  console.log('✅ quickAsk command registered successfully');
+  return commandDisposable;
+}
+
+function buildMessage(question: string, relativePath: string, editor: vscode.TextEditor): string {
+  const selection = editor.selection;
+  if (selection.isEmpty) {
+    return question;
+  }
+
+  const code = editor.document.getText(selection);
+  const lines = `${selection.start.line + 1}-${selection.end.line + 1}`;
+  return `${question}\n\nThis is about lines ${lines} of ${relativePath}:\n\`\`\`\n${code}\n\`\`\``;
+}
+
+async function showResult(
+  result: QuickAskResult,
+  document: vscode.TextDocument,
+  before: string,
+  workspaceFolder: string,
+  snapshots: SnapshotContentProvider
+): Promise<void> {
+  const fileName = path.basename(document.uri.fsPath);
+
+  if (result.exitCode !== 0) {
+    const choice = await vscode.window.showErrorMessage(
+      `Aider quick ask failed (exit code ${result.exitCode}).`,
+      'Show Output'
+    );
+    if (choice === 'Show Output') {
+      await showReply(result.output, snapshots);
+    }
+    return;
+  }
+
+  const editedActiveFile = result.editedFiles.some(
+    file => path.resolve(workspaceFolder, file) === document.uri.fsPath
+  );
+  if (editedActiveFile) {
+    const beforeUri = snapshots.store(fileName, before);
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      beforeUri,
+      document.uri,
+      `${fileName} (before Aider) ↔ ${fileName}`
+    );
+  }
+
+  const otherFiles = result.editedFiles.filter(
+    file => path.resolve(workspaceFolder, file) !== document.uri.fsPath
+  );
+  if (otherFiles.length > 0) {
+    vscode.window.showInformationMessage(`Aider also edited: ${otherFiles.join(', ')}`);
+  }
+
+  if (editedActiveFile || otherFiles.length > 0) {
+    return;
+  }
+
+  if (result.reply.length <= EXTENSION_CONFIG.QUICK_ASK.NOTIFICATION_MAX_LENGTH) {
+    vscode.window.showInformationMessage(result.reply || 'Aider had no reply.');
+  } else {
+    await showReply(result.reply, snapshots);
+  }
+}
+
+async function showReply(reply: string, snapshots: SnapshotContentProvider): Promise<void> {
+  const uri = snapshots.store('Aider Reply.md', reply);
+  const replyDocument = await vscode.workspace.openTextDocument(uri);
+  await vscode.window.showTextDocument(replyDocument, {
+    viewColumn: vscode.ViewColumn.Beside,
+    preview: true
+  });
+}
@@ -0,0 +1,33 @@
+/**
+ * Reset Prompt Policies Command - Forgets remembered answers to Aider's prompts
+ */
+
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { PromptPolicyService } from '../services/PromptPolicyService';
+
+/**
+ * Implementation of the resetPromptPolicies command
+ * Clears the per-workspace answers; the aider.promptPolicies setting still applies
+ */
+export async function resetPromptPoliciesCommand(context: vscode.ExtensionContext): Promise<void> {
+  await new PromptPolicyService(context.workspaceState).clearRemembered();
+  vscode.window.showInformationMessage('Remembered Aider prompt answers have been reset.');
+}
+
+/**
+ * Register the resetPromptPolicies command with VS Code
+ */
+export function registerResetPromptPoliciesCommand(
+  context: vscode.ExtensionContext
+): vscode.Disposable {
+  console.log('⚡ Registering resetPromptPolicies command...');
+
+  const commandDisposable = vscode.commands.registerCommand(
+    EXTENSION_CONFIG.COMMANDS.RESET_PROMPT_POLICIES,
+    () => resetPromptPoliciesCommand(context)
+  );
+
+  console.log('✅ resetPromptPolicies command registered successfully');
+  return commandDisposable;
+}
@@ -0,0 +1,33 @@
+/**
+ * Restart Session Command - Restarts Aider while keeping the chat files
+ */
+
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+
+/**
+ * Implementation of the restartSession command
+ * Used when an interrupt is not enough to get Aider back to its prompt
+ */
+export async function restartSessionCommand(provider: AiderChatViewProvider): Promise<void> {
+  await provider.restartSession();
+}
+
+/**
+ * Register the restartSession command with VS Code
+ */
+export function registerRestartSessionCommand(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider
+): vscode.Disposable {
+  console.log('⚡ Registering restartSession command...');
+
+  const commandDisposable = vscode.commands.registerCommand(
+    EXTENSION_CONFIG.COMMANDS.RESTART_SESSION,
+    () => restartSessionCommand(provider)
+  );
+
+  console.log('✅ restartSession command registered successfully');
+  return commandDisposable;
+}
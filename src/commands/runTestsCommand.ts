@@ -0,0 +1,92 @@
+/**
+ * Run Tests Command - Runs the configured test command through Aider's /test
+ * Aider adds failing output to the chat and tries to fix it; the result shows in the status bar
+ */
+
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+import { TestRunService } from '../services/TestRunService';
+
+/**
+ * Implementation of the runTests command
+ */
+export async function runTestsCommand(
+  provider: AiderChatViewProvider,
+  testRuns: TestRunService,
+  statusBarItem: vscode.StatusBarItem
+): Promise<void> {
+  const testCommand = vscode.workspace
+    .getConfiguration('aider')
+    .get<string>('testCommand', '')
+    .trim();
+  if (!testCommand) {
+    const choice = await vscode.window.showErrorMessage(
+      'No test command configured. Set aider.testCommand, e.g. "npm test".',
+      'Open Settings'
+    );
+    if (choice === 'Open Settings') {
+      vscode.commands.executeCommand('workbench.action.openSettings', 'aider.testCommand');
+    }
+    return;
+  }
+
+  const session = provider.sessions.activeSession;
+  if (!session?.process.isRunning) {
+    vscode.window.showErrorMessage('Aider is not running in the active session.');
+    return;
+  }
+  if (testRuns.isRunning(session.id)) {
+    vscode.window.showErrorMessage('Tests are already running in this session.');
+    return;
+  }
+
+  const result = testRuns.waitForResult(session.id);
+  provider.sendCommand(`/test ${testCommand}`, session.id);
+
+  statusBarItem.text = '$(sync~spin) Aider: Running tests';
+  statusBarItem.backgroundColor = undefined;
+  statusBarItem.show();
+
+  try {
+    const { passed } = await result;
+    statusBarItem.text = passed ? '$(pass) Aider: Tests passed' : '$(error) Aider: Tests failed';
+    statusBarItem.backgroundColor = passed
+      ? undefined
+      : new vscode.ThemeColor('statusBarItem.errorBackground');
+
+    if (passed) {
+      vscode.window.showInformationMessage(`Tests passed: ${testCommand}`);
+    } else {
+      vscode.window.showWarningMessage(
+        `Tests failed: ${testCommand}. Aider added the output to the chat.`
+      );
+    }
+  } catch (error) {
+    statusBarItem.text = '$(warning) Aider: Tests interrupted';
+    vscode.window.showErrorMessage(`Test run did not finish: ${error}`);
+  }
+}
+
+/**
+ * Register the runTests command and its status bar item
+ */
+export function registerRunTestsCommand(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider,
+  testRuns: TestRunService
+): vscode.Disposable {
+  console.log('⚡ Registering runTests command...');
+
+  const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+  statusBarItem.command = EXTENSION_CONFIG.COMMANDS.RUN_TESTS;
+  statusBarItem.tooltip = 'Run the tests again through Aider';
+
+  const commandDisposable = vscode.commands.registerCommand(
+    EXTENSION_CONFIG.COMMANDS.RUN_TESTS,
+    () => runTestsCommand(provider, testRuns, statusBarItem)
+  );
+
+  console.log('✅ runTests command registered successfully');
+  return vscode.Disposable.from(commandDisposable, statusBarItem);
+}
@@ -0,0 +1,90 @@
+/**
+ * Select Model Command - Picks the active session's model from the model catalog
+ */
+
+import * as vscode from 'vscode';
+import { CatalogModel, ModelSource } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+
+const SOURCE_LABELS: Record<ModelSource, string> = {
+  settings: 'aider.models setting',
+  aiderConfig: '.aider.conf.yml',
+  discovered: 'discovered',
+  builtin: 'built-in'
+};
+
+interface ModelQuickPickItem extends vscode.QuickPickItem {
+  model: CatalogModel;
+}
+
+/**
+ * Implementation of the selectModel command
+ * Switches the running session with /model, restarting Aider only when that fails
+ */
+export async function selectModelCommand(provider: AiderChatViewProvider): Promise<void> {
+  const session = provider.sessions.activeSession;
+  const current = session?.model || provider.models.getDefaultModel();
+  const defaultModel = provider.models.getDefaultModel();
+
+  const items: ModelQuickPickItem[] = provider.models.getModels().map(model => ({
+    label: model.id === current ? `$(check) ${model.displayName}` : model.displayName,
+    description: model.id === defaultModel ? `${model.id} · default` : model.id,
+    detail: SOURCE_LABELS[model.source],
+    model
+  }));
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: session
+      ? `Model for "${session.name}" (currently ${current})`
+      : 'Model for the next Aider session',
+    matchOnDescription: true
+  });
+  if (!picked) {
+    return;
+  }
+
+  if (!session) {
+    // No session to switch yet; the next one starts with the default
+    await vscode.workspace
+      .getConfiguration('aider')
+      .update('defaultModel', picked.model.id, vscode.ConfigurationTarget.Global);
+    return;
+  }
+
+  await provider.selectModel(picked.model.id, session.id);
+}
+
+/**
+ * Register the select model command with VS Code, plus a status bar item
+ * that shows the active session's model and opens the picker
+ */
+export function registerSelectModelCommand(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider
+): vscode.Disposable {
+  console.log('⚡ Registering select model command...');
+
+  const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right);
+  statusBarItem.command = EXTENSION_CONFIG.COMMANDS.SELECT_MODEL;
+  statusBarItem.tooltip = 'Switch the model of the active Aider session';
+  const updateStatusBar = (): void => {
+    const session = provider.sessions.activeSession;
+    if (!session) {
+      statusBarItem.hide();
+      return;
+    }
+    statusBarItem.text = `$(hubot) ${session.model}`;
+    statusBarItem.show();
+  };
+  provider.sessions.onSessionsChanged(updateStatusBar);
+  updateStatusBar();
+
+  const commandDisposable = vscode.commands.registerCommand(
+    EXTENSION_CONFIG.COMMANDS.SELECT_MODEL,
+    () => selectModelCommand(provider)
+  );
+
+  console.log('✅ select model command registered successfully');
+  return vscode.Disposable.from(commandDisposable, statusBarItem);
+}
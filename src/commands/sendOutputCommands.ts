@@ -0,0 +1,167 @@
+/**
+ * Send Output Commands - Send terminal or task output to the active Aider session
+ */
+
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+import { TaskOutputService } from '../services/TaskOutputService';
+
+/**
+ * Send the integrated terminal's selection, read through the clipboard
+ */
+export async function sendTerminalSelectionCommand(provider: AiderChatViewProvider): Promise<void> {
+  const terminal = vscode.window.activeTerminal;
+  if (!terminal) {
+    vscode.window.showErrorMessage('No active terminal.');
+    return;
+  }
+
+  const selection = await copyTerminalText();
+  if (!selection.trim()) {
+    vscode.window.showInformationMessage('Select some output in the terminal first.');
+    return;
+  }
+
+  await sendOutput(provider, `Output from the terminal "${terminal.name}"`, selection);
+}
+
+/**
+ * Pick a task and send the output of its last run from the task's terminal
+ * Without a terminal, the task can be run again here after confirming
+ */
+export async function sendTaskOutputCommand(
+  provider: AiderChatViewProvider,
+  taskOutput: TaskOutputService
+): Promise<void> {
+  const tasks = await vscode.tasks.fetchTasks();
+  const picked = await vscode.window.showQuickPick(
+    tasks.map(task => ({
+      label: task.name,
+      description: task.source,
+      detail: taskOutput.findTerminal(task) ? undefined : 'Not run yet',
+      task
+    })),
+    { placeHolder: 'Send the output of a task to Aider' }
+  );
+  if (!picked) {
+    return;
+  }
+  const task = picked.task;
+
+  const terminal = taskOutput.findTerminal(task);
+  if (terminal) {
+    terminal.show(true);
+    const output = taskOutput.lastRunOutput(await copyTerminalText(true));
+    if (!output.trim()) {
+      vscode.window.showInformationMessage(`The terminal of task "${task.name}" is empty.`);
+      return;
+    }
+    await sendOutput(provider, `Output of the task "${task.name}"`, output);
+    return;
+  }
+
+  if (!TaskOutputService.canCapture(task)) {
+    vscode.window.showInformationMessage(
+      `Task "${task.name}" has no terminal to read; run it first, then send its output.`
+    );
+    return;
+  }
+  // Re-running can rebuild or deploy; only do it when asked to
+  const choice = await vscode.window.showWarningMessage(
+    `Task "${task.name}" has no terminal to read its output from. Run its command again to capture the output?`,
+    { modal: true },
+    'Run Again'
+  );
+  if (choice !== 'Run Again') {
+    return;
+  }
+
+  try {
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Running task "${task.name}"...`,
+        cancellable: true
+      },
+      (_progress, token) => taskOutput.run(task, token)
+    );
+
+    const status = result.exitCode === 0 ? 'succeeded' : `failed with exit code ${result.exitCode}`;
+    await sendOutput(provider, `Output of the task "${task.name}", which ${status}`, result.output);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to run task "${task.name}": ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Register the terminal selection and task output commands
+ */
+export function registerSendOutputCommands(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider
+): vscode.Disposable {
+  console.log('⚡ Registering send output commands...');
+
+  const taskOutput = new TaskOutputService();
+  const commandDisposable = vscode.Disposable.from(
+    vscode.commands.registerCommand(EXTENSION_CONFIG.COMMANDS.SEND_TERMINAL_SELECTION, () =>
+      sendTerminalSelectionCommand(provider)
+    ),
+    vscode.commands.registerCommand(EXTENSION_CONFIG.COMMANDS.SEND_TASK_OUTPUT, () =>
+      sendTaskOutputCommand(provider, taskOutput)
+    )
+  );
+
+  console.log('✅ send output commands registered successfully');
+  return commandDisposable;
+}
+
+/**
+ * Copy the active terminal's selection, or all of its text, and put the clipboard back
+ * The terminal API has no getter for either
+ */
+async function copyTerminalText(selectAll = false): Promise<string> {
+  const clipboard = await vscode.env.clipboard.readText();
+  await vscode.env.clipboard.writeText('');
+  if (selectAll) {
+    await vscode.commands.executeCommand('workbench.action.terminal.selectAll');
+  }
+  await vscode.commands.executeCommand('workbench.action.terminal.copySelection');
+  if (selectAll) {
+    await vscode.commands.executeCommand('workbench.action.terminal.clearSelection');
+  }
+  const text = await vscode.env.clipboard.readText();
+  await vscode.env.clipboard.writeText(clipboard);
+  return text;
+}
+
+/**
+ * Ask what to do with the output, then send both as one message
+ */
+async function sendOutput(
+  provider: AiderChatViewProvider,
+  description: string,
+  output: string
+): Promise<void> {
+  const instruction = await vscode.window.showInputBox({
+    prompt: `${description}: what should Aider do with it?`,
+    value: 'Fix the problem shown in this output.'
+  });
+  if (instruction === undefined) {
+    return;
+  }
+
+  const { MAX_LENGTH } = EXTENSION_CONFIG.SEND_OUTPUT;
+  const trimmed = output.trim();
+  const text =
+    trimmed.length > MAX_LENGTH ? `...\n${trimmed.slice(trimmed.length - MAX_LENGTH)}` : trimmed;
+
+  const lines = [`${description}:`, '```', text, '```'];
+  if (instruction.trim()) {
+    lines.unshift(instruction.trim(), '');
+  }
+  await provider.sendAboutFiles([], lines.join('\n'));
+}
@@ -0,0 +1,73 @@
+/**
+ * Symbol Action Command - Runs the "Ask Aider" CodeLens actions on a function, method or class
+ */
+
+import * as vscode from 'vscode';
+import { SymbolAction } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderChatViewProvider } from '../providers/AiderChatViewProvider';
+import { toSessionPath } from '../utils/paths';
+
+/**
+ * Implementation of the symbolAction command
+ * Builds a prompt scoped to the symbol's name and lines, adding its file to the chat
+ */
+export async function symbolActionCommand(
+  provider: AiderChatViewProvider,
+  action: SymbolAction,
+  uri: vscode.Uri,
+  range: vscode.Range,
+  name: string,
+  kind: string
+): Promise<void> {
+  const session = provider.sessions.activeSession;
+  if (!session) {
+    vscode.window.showErrorMessage('No active Aider session. Start a new chat first.');
+    return;
+  }
+
+  const filePath = toSessionPath(session.workspaceFolder, uri.fsPath);
+  const symbol = `the ${kind} \`${name}\` (lines ${range.start.line + 1}-${range.end.line + 1} of ${filePath})`;
+
+  let prompt: string;
+  if (action === 'writeTests') {
+    prompt = `Write tests for ${symbol}, following the project's existing test conventions.`;
+  } else {
+    const instruction = await vscode.window.showInputBox({
+      prompt:
+        action === 'ask' ? `Ask Aider about ${kind} ${name}` : `How should Aider refactor ${name}?`,
+      placeHolder:
+        action === 'ask'
+          ? 'e.g. what does this do, or why could it return null?'
+          : 'Leave empty to improve readability without changing behavior'
+    });
+    if (instruction === undefined || (action === 'ask' && !instruction.trim())) {
+      return;
+    }
+    prompt =
+      action === 'ask'
+        ? `Regarding ${symbol}: ${instruction.trim()}`
+        : `Refactor ${symbol}: ${instruction.trim() || 'improve readability without changing behavior'}.`;
+  }
+
+  await provider.sendAboutFiles([uri], prompt);
+}
+
+/**
+ * Register the symbolAction command with VS Code
+ */
+export function registerSymbolActionCommand(
+  _context: vscode.ExtensionContext,
+  provider: AiderChatViewProvider
+): vscode.Disposable {
+  console.log('⚡ Registering symbolAction command...');
+
+  const commandDisposable = vscode.commands.registerCommand(
+    EXTENSION_CONFIG.COMMANDS.SYMBOL_ACTION,
+    (action: SymbolAction, uri: vscode.Uri, range: vscode.Range, name: string, kind: string) =>
+      symbolActionCommand(provider, action, uri, range, name, kind)
+  );
+
+  console.log('✅ symbolAction command registered successfully');
+  return commandDisposable;
+}
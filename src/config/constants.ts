@@ -22,6 +22,7 @@ export const EXTENSION_CONFIG = {
     NAME: 'Aider Terminal',
     COLS: 80, // More conservative default that matches typical small terminals
     ROWS: 24, // Standard terminal height
+    TAB_WIDTH: 4, // Tabs in messages become spaces; a tab at Aider's prompt triggers completion
     ENV: {} // additional environment vars if needed
   },
 
@@ -30,8 +31,79 @@ export const EXTENSION_CONFIG = {
   },
 
   OLLAMA: {
-    // Fallback API base if not set in ~/.aider.conf.yml
-    DEFAULT_API_BASE: 'http://192.168.0.68:11434'
+    // Fallback API base if OLLAMA_API_BASE is set neither by set-env, a .env file nor the environment
+    DEFAULT_API_BASE: 'http://192.168.0.68:11434',
+    REQUEST_TIMEOUT_MS: 5000,
+    // Prefix Aider (litellm) uses to route a model to Ollama
+    MODEL_PREFIX: 'ollama/'
+  },
+
+  SESSIONS: {
+    DEFAULT_NAME_PREFIX: 'Session'
+  },
+
+  RECOVERY: {
+    MAX_RETRIES: 3,
+    BASE_DELAY_MS: 1000,
+    // A restarted process that survives this long counts as recovered
+    STABLE_AFTER_MS: 10000,
+    // Consecutive exit-code-2 failures before giving up
+    MAX_CONFIG_FAILURES: 2,
+    OUTPUT_TAIL_LINES: 20
+  },
+
+  SHUTDOWN: {
+    // Wait after typing /exit, then after SIGTERM, before escalating
+    EXIT_TIMEOUT_MS: 5000,
+    TERMINATE_TIMEOUT_MS: 3000,
+    KILL_TIMEOUT_MS: 1000,
+    // Wait for the input prompt to come back after Ctrl-C
+    INTERRUPT_TIMEOUT_MS: 5000
+  },
+
+  STARTUP: {
+    // Repo-map scans on large repos can take a while before the first prompt
+    READY_TIMEOUT_MS: 120000
+  },
+
+  FIX_WITH_AIDER: {
+    // Lines of code shown above and below each problem
+    CONTEXT_LINES: 2,
+    // Larger batches are cut off so the prompt stays readable
+    MAX_PROBLEMS: 50
+  },
+
+  MODEL_SWITCH: {
+    // How long Aider may take to announce the new model after /model before restarting instead
+    TIMEOUT_MS: 30000,
+    // How long a /model may wait in the queue behind other messages before that fallback
+    QUEUED_TIMEOUT_MS: 600000
+  },
+
+  SEND_OUTPUT: {
+    // Longer output is cut from the start; the end of a log is what explains a failure
+    MAX_LENGTH: 20000,
+    // A re-run task is stopped after this; watch tasks never exit on their own
+    TASK_TIMEOUT_MS: 300000
+  },
+
+  INLINE_EDIT: {
+    // How long an inline edit may take before its progress notification gives up
+    TIMEOUT_MS: 600000
+  },
+
+  EDIT_REVIEW: {
+    // Slash commands after which Aider may edit files; other commands start no review turn
+    EDITING_COMMANDS: ['/code', '/architect', '/test', '/lint']
+  },
+
+  TEST_RUN: {
+    // How long /test may run before the status bar stops waiting for its result
+    TIMEOUT_MS: 900000
+  },
+  QUICK_ASK: {
+    // Longer replies open in an editor instead of a notification
+    NOTIFICATION_MAX_LENGTH: 200
   },
 
   WEBVIEW: {
@@ -49,11 +121,55 @@ export const EXTENSION_CONFIG = {
   },
 
   STORAGE_KEYS: {
-    CONVERSATION_HISTORY: 'aiderConversationHistory'
+    CONVERSATION_HISTORY: 'aiderConversationHistory',
+    PROMPT_POLICIES: 'aiderPromptPolicies'
   },
 
   COMMAND_ID: 'extension.startAider',
-  VIEW_TYPE: 'aiderChatView'
+  COMMANDS: {
+    RESET_PROMPT_POLICIES: 'aider.resetPromptPolicies',
+    INTERRUPT: 'aider.interrupt',
+    RESTART_SESSION: 'aider.restartSession',
+    QUICK_ASK: 'aider.quickAsk',
+    ADD_FILE: 'aider.addFile',
+    ADD_FILE_READ_ONLY: 'aider.addFileReadOnly',
+    DROP_FILE: 'aider.dropFile',
+    ASK_ABOUT_SELECTION: 'aider.askAboutSelection',
+    CHAT_FILES_REFRESH: 'aider.chatFiles.refresh',
+    CHAT_FILES_OPEN: 'aider.chatFiles.open',
+    CHAT_FILES_DROP: 'aider.chatFiles.drop',
+    CHAT_FILES_MAKE_READ_ONLY: 'aider.chatFiles.makeReadOnly',
+    CHAT_FILES_MAKE_EDITABLE: 'aider.chatFiles.makeEditable',
+    REVIEW_OPEN_DIFF: 'aider.review.openDiff',
+    REVIEW_ACCEPT: 'aider.review.accept',
+    REVIEW_REVERT: 'aider.review.revert',
+    REVIEW_SHOW_TURN: 'aider.review.showTurn',
+    COMMITS_REFRESH: 'aider.commits.refresh',
+    COMMITS_OPEN_DIFF: 'aider.commits.openDiff',
+    COMMITS_UNDO: 'aider.commits.undo',
+    COMMITS_SQUASH: 'aider.commits.squash',
+    FIX_WITH_AIDER: 'aider.fixWithAider',
+    FIX_FILE_WITH_AIDER: 'aider.fixFileWithAider',
+    FIX_WORKSPACE_WITH_AIDER: 'aider.fixWorkspaceWithAider',
+    SEND_TERMINAL_SELECTION: 'aider.sendTerminalSelection',
+    SEND_TASK_OUTPUT: 'aider.sendTaskOutput',
+    RUN_TESTS: 'aider.runTests',
+    SYMBOL_ACTION: 'aider.symbolAction',
+    INLINE_EDIT: 'aider.inlineEdit',
+    INLINE_EDIT_ACCEPT: 'aider.inlineEdit.accept',
+    INLINE_EDIT_REJECT: 'aider.inlineEdit.reject',
+    SELECT_MODEL: 'aider.selectModel',
+    OLLAMA_REFRESH: 'aider.ollama.refresh',
+    OLLAMA_PULL: 'aider.ollama.pull',
+    OLLAMA_DELETE: 'aider.ollama.delete',
+    CONFIG_REFRESH: 'aider.config.refresh'
+  },
+  VIEW_TYPE: 'aiderChatView',
+  CHAT_FILES_VIEW: 'aiderChatFiles',
+  EDIT_REVIEW_VIEW: 'aiderEditReview',
+  COMMITS_VIEW: 'aiderCommits',
+  OLLAMA_VIEW: 'aiderOllamaModels',
+  CONFIG_VIEW: 'aiderConfig'
 };
 
 /**
@@ -5,10 +5,43 @@
 
 import * as vscode from 'vscode';
 import { AiderChatViewProvider } from './providers/AiderChatViewProvider';
+import { SnapshotContentProvider } from './providers/SnapshotContentProvider';
+import { ChatFilesTreeProvider } from './providers/ChatFilesTreeProvider';
+import { EditReviewTreeProvider } from './providers/EditReviewTreeProvider';
+import { ChangeDecorationProvider } from './providers/ChangeDecorationProvider';
+import { CommitHistoryTreeProvider } from './providers/CommitHistoryTreeProvider';
+import { FixWithAiderCodeActionProvider } from './providers/FixWithAiderCodeActionProvider';
+import { AiderCodeLensProvider } from './providers/AiderCodeLensProvider';
+import { InlineDiffProvider } from './providers/InlineDiffProvider';
+import { OllamaModelsTreeProvider } from './providers/OllamaModelsTreeProvider';
+import { AiderConfigTreeProvider } from './providers/AiderConfigTreeProvider';
+import { ChangeTracker } from './services/ChangeTracker';
+import { CommitHistoryService } from './services/CommitHistoryService';
+import { TestRunService } from './services/TestRunService';
+import { OllamaDiscoveryService } from './services/OllamaDiscoveryService';
 import { EXTENSION_CONFIG } from './config/constants';
 import { ExtensionDependencies } from './types';
 import { handleError, disposeErrorHandler } from './utils/errorHandler';
-import { registerStartAiderCommand } from './commands';
+import {
+  registerStartAiderCommand,
+  registerResetPromptPoliciesCommand,
+  registerInterruptCommand,
+  registerRestartSessionCommand,
+  registerQuickAskCommand,
+  registerChatFilesCommands,
+  registerChatFilesViewCommands,
+  registerAskAboutSelectionCommand,
+  registerEditReviewCommands,
+  registerCommitHistoryCommands,
+  registerFixWithAiderCommands,
+  registerSendOutputCommands,
+  registerRunTestsCommand,
+  registerSymbolActionCommand,
+  registerInlineEditCommands,
+  registerSelectModelCommand,
+  registerOllamaCommands,
+  registerAiderConfigCommands
+} from './commands';
 
 // Global provider instance for proper disposal
 let aiderChatProvider: AiderChatViewProvider | undefined;
@@ -41,16 +74,162 @@ export function activate(context: vscode.ExtensionContext): void {
     );
     console.log('✅ WebView provider registered successfully');
 
+    // Chat files of the active session
+    const chatFilesTree = new ChatFilesTreeProvider(aiderChatProvider.sessions);
+    const chatFilesTreeDisposable = vscode.window.registerTreeDataProvider(
+      EXTENSION_CONFIG.CHAT_FILES_VIEW,
+      chatFilesTree
+    );
+
+    // Aider's edits waiting for review
+    const editReviewTree = new EditReviewTreeProvider(aiderChatProvider.edits);
+    const editReviewTreeDisposable = vscode.window.registerTreeDataProvider(
+      EXTENSION_CONFIG.EDIT_REVIEW_VIEW,
+      editReviewTree
+    );
+
+    // Gutter, explorer and hover marks on code Aider changed
+    const changeTracker = new ChangeTracker(aiderChatProvider.sessions, aiderChatProvider.edits);
+    const changeDecorations = new ChangeDecorationProvider(changeTracker);
+    const changeDecorationsDisposable = vscode.Disposable.from(
+      vscode.window.registerFileDecorationProvider(changeDecorations),
+      vscode.languages.registerHoverProvider({ scheme: 'file' }, changeDecorations)
+    );
+
+    // Commits Aider made in the active session
+    const commitHistory = new CommitHistoryService(aiderChatProvider.sessions);
+    const commitHistoryTree = new CommitHistoryTreeProvider(
+      aiderChatProvider.sessions,
+      commitHistory
+    );
+    const commitHistoryTreeDisposable = vscode.window.registerTreeDataProvider(
+      EXTENSION_CONFIG.COMMITS_VIEW,
+      commitHistoryTree
+    );
+
+    // Models on the Ollama server, also offered in the model catalog
+    const ollamaDiscovery = new OllamaDiscoveryService(aiderChatProvider.models);
+    const ollamaModelsTree = new OllamaModelsTreeProvider(
+      ollamaDiscovery,
+      aiderChatProvider.models
+    );
+    const ollamaModelsTreeDisposable = vscode.window.registerTreeDataProvider(
+      EXTENSION_CONFIG.OLLAMA_VIEW,
+      ollamaModelsTree
+    );
+
+    // Effective .aider.conf.yml and .env settings of the active session's folder
+    const aiderConfigTree = new AiderConfigTreeProvider(aiderChatProvider.sessions);
+    const aiderConfigTreeDisposable = vscode.window.registerTreeDataProvider(
+      EXTENSION_CONFIG.CONFIG_VIEW,
+      aiderConfigTree
+    );
+
+    // "Fix with Aider" in the Quick Fix menu of errors and warnings
+    const fixCodeActionsDisposable = vscode.languages.registerCodeActionsProvider(
+      { scheme: 'file' },
+      new FixWithAiderCodeActionProvider(),
+      { providedCodeActionKinds: FixWithAiderCodeActionProvider.providedCodeActionKinds }
+    );
+
+    // "Ask Aider" above functions and classes, for languages that enable aider.codeLens
+    const codeLenses = new AiderCodeLensProvider();
+    const codeLensDisposable = vscode.languages.registerCodeLensProvider(
+      { scheme: 'file' },
+      codeLenses
+    );
+
+    // Inline edits: highlighted in the editor with accept/reject lenses
+    const inlineDiffs = new InlineDiffProvider(aiderChatProvider.edits);
+    const inlineDiffsDisposable = vscode.languages.registerCodeLensProvider(
+      { scheme: 'file' },
+      inlineDiffs
+    );
+
+    // Read-only documents for diffs and replies
+    const snapshots = new SnapshotContentProvider();
+    const snapshotDisposable = vscode.workspace.registerTextDocumentContentProvider(
+      SnapshotContentProvider.scheme,
+      snapshots
+    );
+
     // Register start command
     console.log('⚡ Registering commands...');
     const startCommandDisposable = registerStartAiderCommand(context);
+    const resetPoliciesDisposable = registerResetPromptPoliciesCommand(context);
+    const interruptDisposable = registerInterruptCommand(context, aiderChatProvider);
+    const restartSessionDisposable = registerRestartSessionCommand(context, aiderChatProvider);
+    const quickAskDisposable = registerQuickAskCommand(context, aiderChatProvider, snapshots);
+    const chatFilesDisposable = registerChatFilesCommands(context, aiderChatProvider);
+    const chatFilesViewDisposable = registerChatFilesViewCommands(context, aiderChatProvider);
+    const askSelectionDisposable = registerAskAboutSelectionCommand(context, aiderChatProvider);
+    const editReviewDisposable = registerEditReviewCommands(context, aiderChatProvider, snapshots);
+    const fixWithAiderDisposable = registerFixWithAiderCommands(context, aiderChatProvider);
+    const sendOutputDisposable = registerSendOutputCommands(context, aiderChatProvider);
+    const testRuns = new TestRunService(aiderChatProvider.sessions);
+    const runTestsDisposable = registerRunTestsCommand(context, aiderChatProvider, testRuns);
+    const symbolActionDisposable = registerSymbolActionCommand(context, aiderChatProvider);
+    const inlineEditDisposable = registerInlineEditCommands(
+      context,
+      aiderChatProvider,
+      inlineDiffs
+    );
+    const selectModelDisposable = registerSelectModelCommand(context, aiderChatProvider);
+    const ollamaDisposable = registerOllamaCommands(context, aiderChatProvider, ollamaDiscovery);
+    const aiderConfigDisposable = registerAiderConfigCommands(context, aiderConfigTree);
+    const commitHistoryDisposable = registerCommitHistoryCommands(
+      context,
+      aiderChatProvider,
+      commitHistory,
+      snapshots
+    );
     console.log('✅ Commands registered successfully');
 
     // Register all disposables with context.subscriptions (VS Code best practice)
     console.log('🗂️ Registering disposables...');
     context.subscriptions.push(
       providerDisposable,
-      startCommandDisposable
+      chatFilesTree,
+      chatFilesTreeDisposable,
+      editReviewTree,
+      editReviewTreeDisposable,
+      changeTracker,
+      changeDecorations,
+      changeDecorationsDisposable,
+      commitHistory,
+      commitHistoryTree,
+      commitHistoryTreeDisposable,
+      fixCodeActionsDisposable,
+      codeLenses,
+      codeLensDisposable,
+      inlineDiffs,
+      inlineDiffsDisposable,
+      snapshots,
+      snapshotDisposable,
+      startCommandDisposable,
+      resetPoliciesDisposable,
+      interruptDisposable,
+      restartSessionDisposable,
+      quickAskDisposable,
+      chatFilesDisposable,
+      chatFilesViewDisposable,
+      askSelectionDisposable,
+      editReviewDisposable,
+      commitHistoryDisposable,
+      fixWithAiderDisposable,
+      sendOutputDisposable,
+      testRuns,
+      runTestsDisposable,
+      symbolActionDisposable,
+      inlineEditDisposable,
+      selectModelDisposable,
+      ollamaDiscovery,
+      ollamaModelsTree,
+      ollamaModelsTreeDisposable,
+      ollamaDisposable,
+      aiderConfigTree,
+      aiderConfigTreeDisposable,
+      aiderConfigDisposable
       // Provider disposal will be handled in deactivate()
     );
 
@@ -9,29 +9,75 @@ import {
   WebViewMessage,
   SendToAiderMessage,
   SendCurrentFileMessage,
+  SessionActionMessage,
+  InteractiveResponseMessage,
+  QueuedMessageActionMessage,
+  SelectModelMessage,
   ConversationEntry,
   ExtensionDependencies,
   ProcessExitInfo,
-  AiderError
+  AiderError,
+  AiderSession,
+  AiderOutputEvent,
+  AiderPrompt,
+  ChatFileAction
 } from '../types';
 import { EXTENSION_CONFIG } from '../config/constants';
+import { SessionManager } from '../services/SessionManager';
 import { AiderProcess } from '../services/AiderProcess';
+import { spawnConfiguredTransport } from '../services/transports';
+import { ProcessSupervisor } from '../services/ProcessSupervisor';
+import { PromptPolicyService } from '../services/PromptPolicyService';
+import { OutboundMessageQueue } from '../services/OutboundMessageQueue';
+import { EditReviewService } from '../services/EditReviewService';
+import { ModelSwitchService } from '../services/ModelSwitchService';
+import { ModelCatalogService } from '../services/ModelCatalogService';
 import { WebViewHelper } from '../webview/webviewHelper';
-import { handleError, safeAsync } from '../utils/errorHandler';
+import { handleError } from '../utils/errorHandler';
+import { stripDeviceReports } from '../utils/ansi';
+import { quotePath, toSessionPath } from '../utils/paths';
+
+// Aider slash command for each chat file action
+const CHAT_FILE_COMMANDS: Record<ChatFileAction, string> = {
+  add: '/add',
+  readOnly: '/read-only',
+  drop: '/drop'
+};
+
+/**
+ * Whether Aider may edit files in answer to a message: chat messages and editing slash commands
+ */
+function startsEditTurn(text: string): boolean {
+  const command = text.trim().split(/\s/)[0];
+  return (
+    !command.startsWith('/') || EXTENSION_CONFIG.EDIT_REVIEW.EDITING_COMMANDS.includes(command)
+  );
+}
 
 export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebViewProvider {
   public static readonly viewType = EXTENSION_CONFIG.VIEW_TYPE;
 
   private _view?: vscode.WebviewView;
-  private readonly aiderProcess: AiderProcess;
+  private readonly sessionManager: SessionManager;
+  private readonly supervisor: ProcessSupervisor;
+  private readonly promptPolicies: PromptPolicyService;
+  private readonly messageQueue: OutboundMessageQueue;
+  private readonly editReview: EditReviewService;
+  private readonly modelCatalog: ModelCatalogService;
+  private readonly modelSwitches: ModelSwitchService;
   private readonly webViewHelper: WebViewHelper;
   private readonly context: vscode.ExtensionContext;
-  private conversationHistory: ConversationEntry[] = [];
-  private pendingAiderStart?: { model: string; workspaceFolder: string };
 
   constructor(dependencies: ExtensionDependencies) {
     this.context = dependencies.context;
-    this.aiderProcess = new AiderProcess();
+    // Each session's process uses the transport chosen in settings when it starts
+    this.sessionManager = new SessionManager(() => new AiderProcess(spawnConfiguredTransport));
+    this.supervisor = new ProcessSupervisor(this.sessionManager);
+    this.promptPolicies = new PromptPolicyService(this.context.workspaceState);
+    this.messageQueue = new OutboundMessageQueue();
+    this.editReview = new EditReviewService();
+    this.modelCatalog = new ModelCatalogService();
+    this.modelSwitches = new ModelSwitchService(this.sessionManager);
     this.webViewHelper = new WebViewHelper(this.context.extensionUri.fsPath);
     this.loadPersistedState();
     this.setupProcessEventHandlers();
@@ -41,6 +87,34 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
     return AiderChatViewProvider.viewType;
   }
 
+  /**
+   * Sessions shown in the chat view, for views that follow the active session
+   */
+  get sessions(): SessionManager {
+    return this.sessionManager;
+  }
+
+  /**
+   * Edits Aider applied, grouped by turn, for the review commands and view
+   */
+  get edits(): EditReviewService {
+    return this.editReview;
+  }
+
+  /**
+   * Models offered in the chat view and the model picker
+   */
+  get models(): ModelCatalogService {
+    return this.modelCatalog;
+  }
+
+  /**
+   * Model of the active session, used by commands that run Aider outside the chat
+   */
+  get activeModel(): string {
+    return this.sessionManager.activeSession?.model || this.modelCatalog.getDefaultModel();
+  }
+
   /**
    * VS Code WebView lifecycle - resolveWebviewView
    */
@@ -66,44 +140,89 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
     // Restore conversation if exists
     this.restoreConversationHistory();
 
-    // Start a fresh chat session if no history exists
+    // Start a first chat session if none exists yet
     this.initializeNewChatIfNeeded();
   }
 
   /**
-   * Initialize a new chat session if no conversation history exists
+   * Initialize a new chat session if no session exists
    */
   private async initializeNewChatIfNeeded(): Promise<void> {
-    if (this.conversationHistory.length === 0) {
-      await this.startNewChatSession();
+    if (this.sessionManager.getSessions().length === 0) {
+      await this.startNewChatSession(false);
     }
   }
 
   /**
-   * Start a new chat session with Aider
+   * Start a new chat session in its own tab, leaving existing sessions running
    */
-  public async startNewChatSession(): Promise<void> {
+  public async startNewChatSession(pickFolder: boolean = true): Promise<void> {
     try {
-      const workspaceFolder = this.getWorkspaceFolder();
+      const workspaceFolder = pickFolder
+        ? await this.pickWorkspaceFolder()
+        : this.getWorkspaceFolder();
       if (!workspaceFolder) {
-        this.showError(EXTENSION_CONFIG.MESSAGES.NO_WORKSPACE);
+        if (!vscode.workspace.workspaceFolders?.length) {
+          this.showError(EXTENSION_CONFIG.MESSAGES.NO_WORKSPACE);
+        }
         return;
       }
 
-      // Clear existing conversation
-      this.conversationHistory = [];
-      this.savePersistedState();
+      // Don't start Aider immediately - wait for terminal size from the session's tab
+      const model = this.sessionManager.activeSession?.model || this.modelCatalog.getDefaultModel();
+      this.sessionManager.createSession(model, workspaceFolder);
+    } catch (error) {
+      this.showError(`Failed to start new chat session: ${error}`);
+    }
+  }
+
+  /**
+   * Interrupt the current answer and confirm Aider went back to its prompt
+   */
+  public async interruptSession(sessionId?: string): Promise<void> {
+    const session = this.resolveSession(sessionId);
+    if (!session?.process.isRunning) {
+      vscode.window.showInformationMessage('No running Aider session to interrupt.');
+      return;
+    }
+
+    const backAtPrompt = await session.process.interrupt();
+    if (backAtPrompt) {
+      this.addConversationEntry(
+        {
+          type: 'system',
+          content: 'Interrupted Aider',
+          timestamp: new Date()
+        },
+        session
+      );
+      return;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Aider in "${session.name}" did not return to its prompt after the interrupt.`,
+      'Restart Session'
+    );
+    if (choice === 'Restart Session') {
+      await this.restartSession(session.id);
+    }
+  }
 
-      // Clear the terminal display
-      this.sendToWebView({ command: 'clearTerminal' });
+  /**
+   * Restart a session's Aider process, re-adding its chat files
+   */
+  public async restartSession(sessionId?: string): Promise<void> {
+    const session = this.resolveSession(sessionId);
+    if (!session) {
+      return;
+    }
 
-      // Don't start Aider immediately - wait for terminal size from webview
-      this.pendingAiderStart = {
-        model: EXTENSION_CONFIG.DEFAULT_MODEL,
-        workspaceFolder: workspaceFolder
-      };
+    try {
+      await this.supervisor.restartSession(session);
     } catch (error) {
-      this.showError(`Failed to start new chat session: ${error}`);
+      this.showError(
+        `Failed to restart Aider: ${error instanceof Error ? error.message : String(error)}`
+      );
     }
   }
 
@@ -119,15 +238,18 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
   /**
    * Update conversation with new text
    */
-  public updateConversation(text: string): void {
+  public updateConversation(
+    text: string,
+    session: AiderSession | undefined = this.sessionManager.activeSession
+  ): void {
     const entry: ConversationEntry = {
       type: 'aider',
       content: text,
       timestamp: new Date()
     };
 
-    this.addConversationEntry(entry);
-    this.sendToWebView({ command: 'updateConversation', text });
+    this.addConversationEntry(entry, session);
+    this.sendToWebView({ command: 'updateConversation', sessionId: session?.id, text });
   }
 
   /**
@@ -141,8 +263,13 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
    * Dispose of resources - VS Code pattern
    */
   public dispose(): void {
-    this.aiderProcess.dispose();
     this.savePersistedState();
+    this.supervisor.dispose();
+    this.messageQueue.dispose();
+    this.editReview.dispose();
+    this.modelCatalog.dispose();
+    this.modelSwitches.dispose();
+    this.sessionManager.dispose();
   }
 
   /**
@@ -154,7 +281,10 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
     }
 
     try {
-      this._view.webview.html = this.webViewHelper.generateHtml(this._view.webview);
+      this._view.webview.html = this.webViewHelper.generateHtml(
+        this._view.webview,
+        this.modelCatalog.getModels()
+      );
     } catch (error) {
       handleError(error, 'webview_html_generation');
       this.showFallbackContent();
@@ -195,7 +325,7 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
           break;
 
         case 'interactiveResponse':
-          await this.handleInteractiveResponse(message);
+          await this.handleInteractiveResponse(message as InteractiveResponseMessage);
           break;
 
         case 'terminalInput':
@@ -203,12 +333,40 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
           break;
 
         case 'webviewReady':
-          await this.handleWebviewReady(message as { command: string; cols: number; rows: number });
+          await this.handleWebviewReady(
+            message as { command: string; sessionId?: string; cols: number; rows: number }
+          );
+          break;
+
+        case 'selectModel': {
+          const { model, sessionId } = message as SelectModelMessage;
+          await this.selectModel(model, sessionId);
+          break;
+        }
+
+        case 'requestSessions':
+          this.postSessions();
+          this.postQueues();
+          break;
+
+        case 'editQueuedMessage':
+        case 'cancelQueuedMessage':
+          await this.handleQueuedMessageAction(message as QueuedMessageActionMessage);
+          break;
+
+        case 'switchSession':
+        case 'startSession':
+        case 'stopSession':
+        case 'restartSession':
+        case 'interruptSession':
+        case 'renameSession':
+        case 'closeSession':
+          await this.handleSessionAction(message as SessionActionMessage);
           break;
 
         case 'terminalResize':
           await this.handleTerminalResize(
-            message as { command: string; cols: number; rows: number }
+            message as { command: string; sessionId?: string; cols: number; rows: number }
           );
           break;
 
@@ -226,6 +384,7 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
   private async handleSendToAider(message: SendToAiderMessage): Promise<void> {
     console.log('🔵 handleSendToAider called with:', message);
     const { text, model } = message;
+    const session = this.resolveSession(message.sessionId);
 
     // Validate input
     if (!text?.trim()) {
@@ -233,101 +392,334 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
       return;
     }
 
-    try {
-      console.log('➕ Adding user message to conversation');
-      // Add user message to conversation
-      this.addConversationEntry({
-        type: 'user',
-        content: text,
-        timestamp: new Date()
-      });
+    if (!session) {
+      this.showError('No active Aider session. Start a new chat first.');
+      return;
+    }
 
+    try {
       // Check if model changed
-      if (model && model !== this.aiderProcess.currentModel) {
-        console.log('🔄 Model changed, restarting Aider');
-        await this.restartAiderWithModel(model);
+      if (model && model !== session.model) {
+        console.log('🔄 Model changed, switching Aider');
+        await this.selectModel(model, session.id);
       }
 
-      // If Aider is not running, show a message and wait for it to be started by webviewReady
-      if (!this.aiderProcess.isRunning) {
-        console.log('⏳ Aider is not running yet, waiting for webview to be ready.');
-        this.addConversationEntry({
+      this.sendOrQueue(session, text);
+    } catch (error) {
+      console.error('❌ Error in handleSendToAider:', error);
+      this.addConversationEntry(
+        {
           type: 'system',
-          content: 'Aider is starting, please wait...',
+          content: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
           timestamp: new Date()
-        });
-        // The message will be sent once the process starts, or we can queue it.
-        // For now, we just inform the user.
-        return;
-      }
+        },
+        session
+      );
+      handleError(error, 'send_to_aider');
+    }
+  }
 
-      // Send message to Aider only if it's running
-      if (this.aiderProcess.isRunning) {
-        console.log('📤 Sending message to Aider');
-        this.aiderProcess.sendMessage(text);
-        console.log('✅ Message sent successfully');
-      } else {
-        console.error('❌ Aider process is not running, cannot send message');
-        this.addConversationEntry({
-          type: 'system',
-          content: 'Failed to start Aider process. Please check your configuration.',
-          timestamp: new Date()
-        });
-      }
+  /**
+   * Ask Aider about a range of a file, adding the file to the chat first if needed
+   */
+  public async askAboutSelection(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    instruction: string
+  ): Promise<void> {
+    const session = this.sessionManager.activeSession;
+    if (!session) {
+      this.showError('No active Aider session. Start a new chat first.');
+      return;
+    }
+
+    const filePath = toSessionPath(session.workspaceFolder, document.uri.fsPath);
+    await this.addMissingChatFiles(session, [document.uri]);
+
+    // The file is in the chat, so point at the code instead of pasting it
+    const startLine = range.start.line + 1;
+    const endLine =
+      range.end.character === 0 && range.end.line > range.start.line
+        ? range.end.line
+        : range.end.line + 1;
+    const lines = startLine === endLine ? `line ${startLine}` : `lines ${startLine}-${endLine}`;
+    const firstLine = document.lineAt(range.start.line).text.trim().slice(0, 60);
+    const anchor = firstLine ? ` (starting with \`${firstLine}\`)` : '';
+
+    this.sendOrQueue(session, `Regarding ${lines} of ${filePath}${anchor}: ${instruction}`);
+    vscode.commands.executeCommand(`${EXTENSION_CONFIG.VIEW_TYPE}.focus`);
+  }
+
+  /**
+   * The active session with Aider running, creating and starting one in the background if needed
+   */
+  public async ensureRunningSession(): Promise<AiderSession | undefined> {
+    if (!this.sessionManager.activeSession) {
+      await this.startNewChatSession(false);
+    }
+    const session = this.sessionManager.activeSession;
+    if (!session || session.process.isRunning) {
+      return session;
+    }
+
+    // Without the chat view there is no terminal to measure; it resizes Aider once shown
+    const size = session.terminalSize || {
+      cols: EXTENSION_CONFIG.TERMINAL.COLS,
+      rows: EXTENSION_CONFIG.TERMINAL.ROWS
+    };
+    try {
+      await this.sessionManager.startSession(session.id, size.cols, size.rows);
+      return session;
     } catch (error) {
-      console.error('❌ Error in handleSendToAider:', error);
-      this.addConversationEntry({
-        type: 'system',
-        content: `Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
+      this.showError(`Failed to start Aider: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Send a prompt about some files to the active session, adding those not yet in the chat
+   * @param inlineTurnId Turn reserved for an inline edit, see EditReviewService.reserveInlineTurn
+   * @returns false when there is no session to send it to
+   */
+  public async sendAboutFiles(
+    uris: vscode.Uri[],
+    prompt: string,
+    revealChat: boolean = true,
+    inlineTurnId?: string
+  ): Promise<boolean> {
+    const session = this.sessionManager.activeSession;
+    if (!session) {
+      this.showError('No active Aider session. Start a new chat first.');
+      return false;
+    }
+
+    await this.addMissingChatFiles(session, uris);
+    this.sendOrQueue(session, prompt, inlineTurnId);
+    if (revealChat) {
+      vscode.commands.executeCommand(`${EXTENSION_CONFIG.VIEW_TYPE}.focus`);
+    }
+    return true;
+  }
+
+  /**
+   * Ask Aider to list the chat files; the tracker picks up the /ls output
+   */
+  public refreshChatFiles(sessionId?: string): void {
+    const session = this.resolveSession(sessionId);
+    if (session) {
+      this.sendOrQueue(session, '/ls');
+    }
+  }
+
+  /**
+   * Ask Aider to undo its last commit; false when the session's Aider is not running
+   */
+  public undoLastCommit(sessionId?: string): boolean {
+    return this.sendCommand('/undo', sessionId);
+  }
+
+  /**
+   * Send a slash command to a session; false when its Aider is not running
+   */
+  public sendCommand(command: string, sessionId?: string): boolean {
+    const session = this.resolveSession(sessionId);
+    if (!session?.process.isRunning) {
+      return false;
+    }
+    this.sendOrQueue(session, command);
+    return true;
+  }
+
+  private async addMissingChatFiles(session: AiderSession, uris: vscode.Uri[]): Promise<void> {
+    const missing = uris.filter(uri => {
+      const filePath = toSessionPath(session.workspaceFolder, uri.fsPath);
+      return (
+        !session.chatFiles.editable.includes(filePath) &&
+        !session.chatFiles.readOnly.includes(filePath)
+      );
+    });
+    if (missing.length > 0) {
+      await this.manageChatFiles('add', missing, session.id);
+    }
+  }
+
+  /**
+   * Send now, or hold the message until Aider shows its input prompt, keeping earlier ones first
+   */
+  private sendOrQueue(session: AiderSession, text: string, inlineTurnId?: string): void {
+    if (
+      !session.process.isRunning ||
+      !session.process.isReady ||
+      this.messageQueue.hasMessages(session.id)
+    ) {
+      console.log('⏳ Aider is not ready yet, queueing message');
+      this.messageQueue.enqueue(session.id, text, inlineTurnId);
+      return;
+    }
+
+    this.dispatchMessage(session, text, inlineTurnId);
+  }
+
+  /**
+   * Record a user message in the history and type it into Aider
+   */
+  private dispatchMessage(session: AiderSession, text: string, inlineTurnId?: string): void {
+    console.log('➕ Adding user message to conversation');
+    this.addConversationEntry(
+      {
+        type: 'user',
+        content: text,
         timestamp: new Date()
-      });
-      handleError(error, 'send_to_aider');
+      },
+      session
+    );
+
+    console.log('📤 Sending message to Aider');
+    if (startsEditTurn(text)) {
+      this.editReview.beginTurn(session, text, inlineTurnId);
+    }
+    session.process.sendMessage(text);
+    console.log('✅ Message sent successfully');
+  }
+
+  /**
+   * Send the next queued message once Aider is back at its input prompt
+   */
+  private flushNextQueuedMessage(session: AiderSession): void {
+    if (!session.process.isRunning) {
+      return;
+    }
+
+    const queued = this.messageQueue.dequeue(session.id);
+    if (queued) {
+      console.log(`📬 Sending queued message ${queued.id} to ${session.id}`);
+      this.dispatchMessage(session, queued.text, queued.turnId);
+    }
+  }
+
+  /**
+   * Edit or cancel a message that is still waiting in the queue
+   */
+  private async handleQueuedMessageAction(message: QueuedMessageActionMessage): Promise<void> {
+    const queued = this.messageQueue.find(message.sessionId, message.messageId);
+    if (!queued) {
+      return;
+    }
+
+    if (message.command === 'cancelQueuedMessage') {
+      this.messageQueue.cancel(message.sessionId, message.messageId);
+      if (queued.turnId) {
+        this.editReview.abandonTurn(queued.turnId, 'The edit was canceled before it was sent');
+      }
+      if (queued.text.trim().startsWith('/model')) {
+        this.modelSwitches.cancelSwitch(message.sessionId);
+      }
+      return;
+    }
+
+    const text = await vscode.window.showInputBox({
+      prompt: 'Edit queued message',
+      value: queued.text
+    });
+    if (text !== undefined) {
+      this.messageQueue.update(message.sessionId, message.messageId, text);
     }
   }
 
   /**
    * Handle send current file to Aider
    */
-  private async handleSendCurrentFile(_message: SendCurrentFileMessage): Promise<void> {
+  private async handleSendCurrentFile(message: SendCurrentFileMessage): Promise<void> {
     const editor = vscode.window.activeTextEditor;
 
-    if (!editor) {
+    if (!editor || editor.document.isUntitled) {
       vscode.window.showErrorMessage(EXTENSION_CONFIG.MESSAGES.NO_EDITOR);
       return;
     }
 
-    const fileContent = editor.document.getText();
-    const fileName = editor.document.fileName;
-    const aiderCommand = `/read ${fileName}\n${fileContent}`;
+    await this.manageChatFiles('add', [editor.document.uri], message.sessionId);
+  }
 
-    // Add system message to conversation
-    this.addConversationEntry({
-      type: 'system',
-      content: `Sent file: ${fileName}`,
-      timestamp: new Date()
-    });
+  /**
+   * Add, add read-only or drop files in a session's chat with the matching slash command
+   */
+  public async manageChatFiles(
+    action: ChatFileAction,
+    uris: vscode.Uri[],
+    sessionId?: string
+  ): Promise<void> {
+    const session = this.resolveSession(sessionId);
+    if (!session) {
+      this.showError('No active Aider session. Start a new chat first.');
+      return;
+    }
 
-    // Send to Aider if running
-    if (this.aiderProcess.isRunning) {
-      this.aiderProcess.sendMessage(aiderCommand);
+    const paths = uris
+      .filter(uri => uri.scheme === 'file')
+      .map(uri => quotePath(toSessionPath(session.workspaceFolder, uri.fsPath)));
+    if (paths.length === 0) {
+      return;
     }
+
+    const slashCommand = CHAT_FILE_COMMANDS[action];
+    this.sendOrQueue(session, `${slashCommand} ${paths.join(' ')}`);
   }
 
   /**
-   * Restart Aider with new model
+   * Switch a session to another model with Aider's /model
+   * Falls back to restarting Aider with the model, re-adding the chat files, when the
+   * switch is not confirmed in the output
    */
-  private async restartAiderWithModel(model: string): Promise<void> {
-    if (this.aiderProcess.isRunning) {
-      await safeAsync(() => this.aiderProcess.stop(), 'aider_stop');
+  public async selectModel(model: string, sessionId?: string): Promise<void> {
+    const session = this.resolveSession(sessionId);
+    if (!session) {
+      vscode.window.showInformationMessage('No Aider session to switch the model of.');
+      return;
+    }
+    if (model === (this.modelSwitches.pendingModel(session.id) ?? session.model)) {
+      return;
     }
 
-    // Set pending start and refresh webview to trigger restart
-    const workspaceFolder = this.getWorkspaceFolder();
-    if (workspaceFolder) {
-      this.pendingAiderStart = { model, workspaceFolder };
-      this.refresh();
-    } else {
-      this.showError(EXTENSION_CONFIG.MESSAGES.NO_WORKSPACE);
+    // A stopped session picks the model up when it starts
+    if (!session.process.isRunning) {
+      this.sessionManager.setSessionModel(session.id, model);
+      return;
+    }
+
+    const switched = this.modelSwitches.waitForSwitch(session.id, model);
+    this.sendOrQueue(session, `/model ${model}`);
+    const result = await switched;
+    if (result.type === 'canceled') {
+      return;
+    }
+    if (result.type === 'switched') {
+      console.log(`🔀 Aider switched ${session.id} to ${result.model}`);
+      this.sessionManager.setSessionModel(session.id, model);
+      return;
+    }
+
+    this.addConversationEntry(
+      {
+        type: 'system',
+        content: `Aider did not confirm the switch to ${model}, restarting with it`,
+        timestamp: new Date()
+      },
+      session
+    );
+    await this.restartAiderWithModel(session, model);
+  }
+
+  /**
+   * Restart a session's Aider process with a new model, keeping its chat files
+   */
+  private async restartAiderWithModel(session: AiderSession, model: string): Promise<void> {
+    this.sessionManager.setSessionModel(session.id, model);
+    try {
+      await this.supervisor.restartSession(session);
+    } catch (error) {
+      this.showError(
+        `Failed to restart Aider with ${model}: ${error instanceof Error ? error.message : String(error)}`
+      );
     }
   }
 
@@ -339,37 +731,237 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
   }
 
   /**
-   * Setup event handlers for Aider process
+   * Let the user choose the working folder in multi-root workspaces
+   */
+  private async pickWorkspaceFolder(): Promise<string | undefined> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length <= 1) {
+      return this.getWorkspaceFolder();
+    }
+
+    const folder = await vscode.window.showWorkspaceFolderPick({
+      placeHolder: 'Select the working folder for the new Aider session'
+    });
+    return folder?.uri.fsPath;
+  }
+
+  /**
+   * Resolve the session a webview message targets, defaulting to the active one
+   */
+  private resolveSession(sessionId?: string): AiderSession | undefined {
+    return this.sessionManager.getSession(sessionId) || this.sessionManager.activeSession;
+  }
+
+  /**
+   * Setup event handlers for all session processes
    */
   private setupProcessEventHandlers(): void {
-    this.aiderProcess.onData((data: string) => {
-      this.updateConversation(data);
+    // Raw PTY output only feeds the terminal; history is built from parsed events
+    this.sessionManager.onSessionData((session, data: string) => {
+      this.sendToWebView({ command: 'updateConversation', sessionId: session.id, text: data });
     });
 
-    this.aiderProcess.onExit((exitInfo: ProcessExitInfo) => {
+    this.sessionManager.onSessionOutput((session, event: AiderOutputEvent) => {
+      // Back at the input prompt: any open question was answered in the terminal
+      if (event.type === 'prompt') {
+        this.sendToWebView({ command: 'hideInteractivePrompt', sessionId: session.id });
+      }
+      this.recordOutputEvent(session, event);
+      this.editReview.processEvent(session, event);
+      if (event.type === 'prompt') {
+        this.flushNextQueuedMessage(session);
+      }
+    });
+
+    this.sessionManager.onSessionExit((session, exitInfo: ProcessExitInfo) => {
+      this.editReview.endSession(session.id);
       const message = `Aider process exited with code ${exitInfo.exitCode}`;
-      this.addConversationEntry({
-        type: 'system',
-        content: message,
-        timestamp: new Date()
+      this.addConversationEntry(
+        {
+          type: 'system',
+          content: message,
+          timestamp: new Date()
+        },
+        session
+      );
+      this.sendToWebView({ command: 'updateConversation', sessionId: session.id, text: message });
+    });
+
+    this.sessionManager.onSessionError((session, error: AiderError) => {
+      this.updateConversation(`Error: ${error.message}`, session);
+    });
+
+    this.sessionManager.onSessionPrompt((session, prompt) => {
+      this.handleInteractivePrompt(session, prompt);
+    });
+
+    this.supervisor.onStatus((session, message: string) => {
+      this.addConversationEntry(
+        {
+          type: 'system',
+          content: message,
+          timestamp: new Date()
+        },
+        session
+      );
+      this.sendToWebView({
+        command: 'updateConversation',
+        sessionId: session.id,
+        text: `\n${message}\n`
       });
-      this.updateConversation(message);
     });
 
-    this.aiderProcess.onError((error: AiderError) => {
-      this.showError(error.message);
+    this.messageQueue.onChanged((sessionId, messages) => {
+      this.sendToWebView({ command: 'queueUpdated', sessionId, messages });
+    });
+
+    // Update the dropdown in place; regenerating the HTML would drop the terminals
+    this.modelCatalog.onChanged(() => {
+      this.sendToWebView({ command: 'modelsUpdated', models: this.modelCatalog.getModels() });
     });
 
-    this.aiderProcess.onPrompt(prompt => {
-      this.handleInteractivePrompt(prompt);
+    this.sessionManager.onSessionsChanged(() => {
+      vscode.commands.executeCommand(
+        'setContext',
+        'aider.sessionRunning',
+        !!this.sessionManager.activeSession?.process.isRunning
+      );
+      this.postSessions();
+      this.savePersistedState();
+    });
+  }
+
+  /**
+   * Store parsed Aider output as plain-text conversation history
+   */
+  private recordOutputEvent(session: AiderSession, event: AiderOutputEvent): void {
+    if (event.type === 'prompt' || event.type === 'input' || event.type === 'confirm') {
+      return;
+    }
+
+    const history = session.conversationHistory;
+    const last = history[history.length - 1];
+    if (event.type === 'assistant' && last?.type === 'aider') {
+      last.content += `\n${event.text}`;
+      this.savePersistedState();
+      return;
+    }
+
+    this.addConversationEntry(
+      {
+        type: event.type === 'assistant' ? 'aider' : 'system',
+        content: event.text,
+        timestamp: new Date()
+      },
+      session
+    );
+  }
+
+  /**
+   * Push the session list to the webview tab bar
+   */
+  private postSessions(): void {
+    this.sendToWebView({
+      command: 'sessionsUpdated',
+      sessions: this.sessionManager.getSessionInfos(),
+      activeSessionId: this.sessionManager.activeSession?.id
+    });
+  }
+
+  /**
+   * Push every session's pending messages, e.g. after the webview reloads
+   */
+  private postQueues(): void {
+    this.sessionManager.getSessions().forEach(session => {
+      this.sendToWebView({
+        command: 'queueUpdated',
+        sessionId: session.id,
+        messages: this.messageQueue.getMessages(session.id)
+      });
     });
   }
 
   /**
-   * Add entry to conversation history
+   * Handle start/stop/rename/close/switch actions from the session tabs
    */
-  private addConversationEntry(entry: ConversationEntry): void {
-    this.conversationHistory.push(entry);
+  private async handleSessionAction(message: SessionActionMessage): Promise<void> {
+    const session = this.sessionManager.getSession(message.sessionId);
+    if (!session) {
+      console.warn('Session action for unknown session:', message.sessionId);
+      return;
+    }
+
+    switch (message.command) {
+      case 'switchSession':
+        this.sessionManager.setActiveSession(session.id);
+        break;
+
+      case 'startSession': {
+        if (session.process.isRunning) {
+          return;
+        }
+        const size = session.terminalSize || {
+          cols: EXTENSION_CONFIG.TERMINAL.COLS,
+          rows: EXTENSION_CONFIG.TERMINAL.ROWS
+        };
+        await this.sessionManager.startSession(session.id, size.cols, size.rows);
+        break;
+      }
+
+      case 'stopSession':
+        await this.sessionManager.stopSession(session.id);
+        break;
+
+      case 'restartSession':
+        await this.restartSession(session.id);
+        break;
+
+      case 'interruptSession':
+        await this.interruptSession(session.id);
+        break;
+
+      case 'renameSession': {
+        const name = await vscode.window.showInputBox({
+          prompt: 'Rename Aider session',
+          value: session.name
+        });
+        if (name !== undefined) {
+          this.sessionManager.renameSession(session.id, name);
+        }
+        break;
+      }
+
+      case 'closeSession': {
+        if (session.process.isRunning) {
+          const choice = await vscode.window.showWarningMessage(
+            `Close "${session.name}"? Its Aider process will be stopped.`,
+            { modal: true },
+            'Close'
+          );
+          if (choice !== 'Close') {
+            return;
+          }
+        }
+        await this.sessionManager.closeSession(session.id);
+        this.messageQueue.clear(session.id);
+        this.editReview.clearSession(session.id);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Add entry to a session's conversation history
+   */
+  private addConversationEntry(
+    entry: ConversationEntry,
+    session: AiderSession | undefined = this.sessionManager.activeSession
+  ): void {
+    if (!session) {
+      return;
+    }
+
+    session.conversationHistory.push(entry);
     this.savePersistedState();
   }
 
@@ -383,39 +975,62 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
   /**
    * Handle interactive prompts from Aider
    */
-  private handleInteractivePrompt(prompt: { text: string; options: string[]; type: string }): void {
+  private handleInteractivePrompt(session: AiderSession, prompt: AiderPrompt): void {
     console.log('Handling interactive prompt:', prompt);
 
+    // Answer automatically when a policy covers this prompt type
+    const answer = this.promptPolicies.resolveAnswer(prompt);
+    if (answer !== undefined) {
+      const label = prompt.options.find(option => option.key === answer)?.label || 'default';
+      console.log(`🤖 Auto-answering ${prompt.type} prompt with "${label}"`);
+      this.addConversationEntry(
+        {
+          type: 'system',
+          content: `Auto-answered "${prompt.text}" with ${label}`,
+          timestamp: new Date()
+        },
+        session
+      );
+      session.process.sendMessage(answer);
+      return;
+    }
+
     // Send the prompt to the webview to show the overlay
     this.sendToWebView({
       command: 'showInteractivePrompt',
+      sessionId: session.id,
+      sessionName: session.name,
       promptText: prompt.text,
-      options: prompt.options
+      promptType: prompt.type,
+      subject: prompt.subject,
+      options: prompt.options,
+      defaultKey: prompt.defaultKey
     });
   }
 
   /**
-   * Handle terminal input (like CPR responses) from the webview
+   * Handle keyboard input from the webview terminal
    */
   private async handleTerminalInput(message: {
     command: string;
+    sessionId?: string;
     data: string;
-    isCPR?: boolean;
   }): Promise<void> {
-    if (!this.aiderProcess.isRunning) {
+    const session = this.resolveSession(message.sessionId);
+    if (!session?.process.isRunning) {
       console.warn('Terminal input received but Aider process is not running');
       return;
     }
 
     try {
-      if (message.isCPR) {
-        console.log('🎯 Forwarding CPR response to Aider:', JSON.stringify(message.data));
-      } else {
-        console.log('🔄 Forwarding terminal input to Aider:', JSON.stringify(message.data));
+      // The headless terminal model answers device-status queries; drop the webview's copies
+      const data = stripDeviceReports(message.data);
+      if (!data) {
+        return;
       }
 
-      // Forward the terminal input (like CPR responses) directly to Aider
-      this.aiderProcess.sendRawData(message.data);
+      console.log('🔄 Forwarding terminal input to Aider:', JSON.stringify(data));
+      session.process.sendRawData(data);
     } catch (error) {
       console.error('Error handling terminal input:', error);
       handleError(error, 'terminal_input');
@@ -427,25 +1042,25 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
    */
   private async handleWebviewReady(message: {
     command: string;
+    sessionId?: string;
     cols: number;
     rows: number;
   }): Promise<void> {
-    // If we have a pending Aider start, start it now with the correct terminal size
-    if (this.pendingAiderStart && !this.aiderProcess.isRunning) {
+    const session = this.resolveSession(message.sessionId);
+    if (!session) {
+      return;
+    }
+
+    session.terminalSize = { cols: message.cols, rows: message.rows };
+
+    // If the session has a pending Aider start, start it now with the correct terminal size
+    if (session.pendingStart && !session.process.isRunning) {
       try {
         console.log(
-          `🚀 Webview is ready. Starting Aider with terminal size ${message.cols}x${message.rows}`
+          `🚀 Webview is ready. Starting ${session.id} with terminal size ${message.cols}x${message.rows}`
         );
 
-        // Update the PTY configuration with the actual terminal size
-        await this.aiderProcess.startWithSize(
-          this.pendingAiderStart.model,
-          this.pendingAiderStart.workspaceFolder,
-          message.cols,
-          message.rows
-        );
-
-        this.pendingAiderStart = undefined;
+        await this.sessionManager.startSession(session.id, message.cols, message.rows);
       } catch (error) {
         console.error('Error starting Aider with terminal size:', error);
         handleError(error, 'aider_start_with_size');
@@ -459,14 +1074,22 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
    */
   private async handleTerminalResize(message: {
     command: string;
+    sessionId?: string;
     cols: number;
     rows: number;
   }): Promise<void> {
+    const session = this.resolveSession(message.sessionId);
+    if (!session) {
+      return;
+    }
+
+    session.terminalSize = { cols: message.cols, rows: message.rows };
+
     // If Aider is running, resize the terminal
-    if (this.aiderProcess.isRunning) {
+    if (session.process.isRunning) {
       try {
-        console.log(`Resizing terminal to ${message.cols}x${message.rows}`);
-        this.aiderProcess.resize(message.cols, message.rows);
+        console.log(`Resizing ${session.id} terminal to ${message.cols}x${message.rows}`);
+        session.process.resize(message.cols, message.rows);
       } catch (error) {
         console.error('Error handling terminal resize:', error);
         handleError(error, 'terminal_resize');
@@ -477,36 +1100,26 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
   /**
    * Handle user response to interactive prompts
    */
-  private async handleInteractiveResponse(
-    message: WebViewMessage & { response?: string; originalPrompt?: string }
-  ): Promise<void> {
-    if (!this.aiderProcess.isRunning) {
+  private async handleInteractiveResponse(message: InteractiveResponseMessage): Promise<void> {
+    const session = this.resolveSession(message.sessionId);
+    if (!session?.process.isRunning) {
       console.warn('Interactive response received but Aider process is not running');
       return;
     }
 
     try {
       const response = message.response || '';
-      console.log('User responded to interactive prompt:', response);
-
-      // Convert user-friendly responses to terminal input
-      let terminalInput = '';
-      if (response.toLowerCase() === 'yes' || response.toLowerCase() === 'y') {
-        terminalInput = 'y\n';
-      } else if (response.toLowerCase() === 'no' || response.toLowerCase() === 'n') {
-        terminalInput = 'n\n';
-      } else if (response.toLowerCase() === 'continue') {
-        terminalInput = '\n';
-      } else {
-        // For custom responses, use as-is
-        terminalInput = response + '\n';
+      console.log('User responded to interactive prompt:', JSON.stringify(response));
+
+      if (message.remember && message.promptType) {
+        await this.promptPolicies.remember(message.promptType, response);
       }
 
-      // Send the response to Aider
-      this.aiderProcess.sendMessage(terminalInput);
+      // The option key is what Aider expects; sendMessage adds the Enter
+      session.process.sendMessage(response);
 
       // Hide the prompt overlay
-      this.sendToWebView({ command: 'hideInteractivePrompt' });
+      this.sendToWebView({ command: 'hideInteractivePrompt', sessionId: session.id });
     } catch (error) {
       console.error('Error handling interactive response:', error);
       handleError(error, 'interactive_response');
@@ -517,14 +1130,20 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
    * Restore conversation history in webview
    */
   private restoreConversationHistory(): void {
-    this.conversationHistory.forEach(entry => {
-      // Validate entry before displaying
-      if (entry && entry.type && entry.content) {
-        const displayText = `${entry.type}: ${entry.content}`;
-        this.sendToWebView({ command: 'updateConversation', text: displayText });
-      } else {
-        console.warn('Skipping invalid conversation entry:', entry);
-      }
+    this.sessionManager.getSessions().forEach(session => {
+      session.conversationHistory.forEach(entry => {
+        // Validate entry before displaying
+        if (entry && entry.type && entry.content) {
+          const displayText = `${entry.type}: ${entry.content}`;
+          this.sendToWebView({
+            command: 'updateConversation',
+            sessionId: session.id,
+            text: displayText
+          });
+        } else {
+          console.warn('Skipping invalid conversation entry:', entry);
+        }
+      });
     });
   }
 
@@ -536,8 +1155,7 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
       console.log('💾 Loading persisted state...');
 
       // Clear any corrupted state for now to fix undefined messages
-      this.context.globalState.update(EXTENSION_CONFIG.STORAGE_KEYS.CONVERSATION_HISTORY, []);
-      this.conversationHistory = [];
+      this.context.globalState.update(EXTENSION_CONFIG.STORAGE_KEYS.CONVERSATION_HISTORY, {});
       console.log('🧹 Cleared conversation history to fix undefined messages');
 
       /* TODO: Re-enable persistence after fixing undefined issue
@@ -562,18 +1180,22 @@ export class AiderChatViewProvider implements vscode.WebviewViewProvider, IWebVi
       */
     } catch (error) {
       handleError(error, 'load_persisted_state');
-      this.conversationHistory = [];
     }
   }
 
   /**
-   * Save state to VS Code global state
+   * Save per-session conversation history to VS Code global state
    */
   private savePersistedState(): void {
     try {
+      const historyBySession: Record<string, ConversationEntry[]> = {};
+      this.sessionManager.getSessions().forEach(session => {
+        historyBySession[session.id] = session.conversationHistory;
+      });
+
       this.context.globalState.update(
         EXTENSION_CONFIG.STORAGE_KEYS.CONVERSATION_HISTORY,
-        this.conversationHistory
+        historyBySession
       );
     } catch (error) {
       handleError(error, 'save_persisted_state');
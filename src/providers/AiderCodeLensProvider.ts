@@ -0,0 +1,84 @@
+/**
+ * AiderCodeLensProvider - "Ask Aider" lenses above functions, methods and classes
+ * Symbols come from the language's document symbol provider; off unless enabled per language
+ */
+
+import * as vscode from 'vscode';
+import { SymbolAction } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+
+const SYMBOL_KINDS = [
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor,
+  vscode.SymbolKind.Class
+];
+
+const LENS_TITLES: Record<SymbolAction, string> = {
+  ask: 'Ask Aider',
+  refactor: 'Refactor with Aider',
+  writeTests: 'Write tests with Aider'
+};
+
+export class AiderCodeLensProvider implements vscode.CodeLensProvider {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly configListener: vscode.Disposable;
+
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  constructor() {
+    this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('aider.codeLens')) {
+        this.changeEmitter.fire();
+      }
+    });
+  }
+
+  async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    // Language-specific settings ("[python]": { "aider.codeLens": true }) apply through the document scope
+    if (!vscode.workspace.getConfiguration('aider', document).get<boolean>('codeLens', false)) {
+      return [];
+    }
+
+    const symbols = await vscode.commands.executeCommand<
+      (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined
+    >('vscode.executeDocumentSymbolProvider', document.uri);
+
+    return flattenSymbols(symbols || [])
+      .filter(symbol => SYMBOL_KINDS.includes(symbol.kind))
+      .flatMap(symbol =>
+        (Object.keys(LENS_TITLES) as SymbolAction[]).map(
+          action =>
+            new vscode.CodeLens(symbol.range, {
+              title: LENS_TITLES[action],
+              command: EXTENSION_CONFIG.COMMANDS.SYMBOL_ACTION,
+              arguments: [
+                action,
+                document.uri,
+                symbol.range,
+                symbol.name,
+                vscode.SymbolKind[symbol.kind].toLowerCase()
+              ]
+            })
+        )
+      );
+  }
+
+  dispose(): void {
+    this.configListener.dispose();
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * Nested document symbols, or flat symbol information, as one list with ranges
+ */
+function flattenSymbols(
+  symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[]
+): { name: string; kind: vscode.SymbolKind; range: vscode.Range }[] {
+  return symbols.flatMap(symbol =>
+    'children' in symbol
+      ? [symbol, ...flattenSymbols(symbol.children)]
+      : [{ name: symbol.name, kind: symbol.kind, range: symbol.location.range }]
+  );
+}
@@ -0,0 +1,198 @@
+/**
+ * AiderConfigTreeProvider - shows the effective Aider config of the active session's folder
+ * Lists the .aider.conf.yml and .env files Aider searches, then every option and
+ * variable with the file it came from; clicking an entry opens that file
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+  AiderConfigEntry,
+  AiderConfigFile,
+  AiderConfigScope,
+  EffectiveAiderConfig
+} from '../types';
+import { SessionManager } from '../services/SessionManager';
+import { isSecretName, loadAiderConfig } from '../utils/aiderConfig';
+
+const SCOPE_LABELS: Record<AiderConfigScope, string> = {
+  home: 'home',
+  gitRoot: 'git root',
+  workspace: 'workspace',
+  envFile: 'env-file option'
+};
+
+type AiderConfigSection = 'files' | 'options' | 'env';
+
+export class AiderConfigSectionItem extends vscode.TreeItem {
+  constructor(
+    readonly section: AiderConfigSection,
+    label: string,
+    count: number
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.Expanded);
+
+    this.id = `aider-config-${section}`;
+    this.description = String(count);
+    this.contextValue = 'aiderConfigSection';
+  }
+}
+
+export class AiderConfigFileItem extends vscode.TreeItem {
+  constructor(readonly file: AiderConfigFile) {
+    super(path.basename(file.path), vscode.TreeItemCollapsibleState.None);
+
+    this.id = `aider-config-file-${file.path}`;
+    this.description = `${SCOPE_LABELS[file.scope]} · ${
+      file.error ? 'unreadable' : file.exists ? 'loaded' : 'not found'
+    }`;
+    this.tooltip = file.error ? `${file.path}\n${file.error}` : file.path;
+    this.iconPath = new vscode.ThemeIcon(
+      file.error ? 'warning' : file.exists ? 'pass-filled' : 'circle-large-outline'
+    );
+    this.contextValue = 'aiderConfigFile';
+    if (file.exists) {
+      this.resourceUri = vscode.Uri.file(file.path);
+      this.command = openFileCommand(file);
+    }
+  }
+}
+
+export class AiderConfigEntryItem extends vscode.TreeItem {
+  constructor(readonly entry: AiderConfigEntry) {
+    super(`${entry.key}: ${formatConfigValue(entry)}`, vscode.TreeItemCollapsibleState.None);
+
+    this.id = `aider-config-entry-${entry.source.path}-${entry.key}`;
+    this.description = `${SCOPE_LABELS[entry.source.scope]} · ${path.basename(entry.source.path)}`;
+    this.tooltip = [
+      `From ${entry.source.path}`,
+      ...entry.overridden.map(file => `Overrides ${file.path}`)
+    ].join('\n');
+    this.iconPath = new vscode.ThemeIcon(entry.overridden.length ? 'layers' : 'symbol-property');
+    this.contextValue = 'aiderConfigEntry';
+    this.command = openFileCommand(entry.source);
+  }
+}
+
+export type AiderConfigTreeItem =
+  AiderConfigSectionItem | AiderConfigFileItem | AiderConfigEntryItem;
+
+export class AiderConfigTreeProvider implements vscode.TreeDataProvider<AiderConfigTreeItem> {
+  private readonly changeEmitter = new vscode.EventEmitter<AiderConfigTreeItem | undefined>();
+  private readonly watcher: vscode.FileSystemWatcher;
+  private config: EffectiveAiderConfig | undefined;
+  private shownFolder: string | undefined;
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly sessionManager: SessionManager) {
+    // Reload when another session, possibly in another folder, becomes active
+    this.sessionManager.onSessionsChanged(() => {
+      if (this.currentFolder() !== this.shownFolder) {
+        this.refresh();
+      }
+    });
+
+    // Workspace config and .env edits; files outside the workspace need a manual refresh
+    this.watcher = vscode.workspace.createFileSystemWatcher('**/{.aider.conf.yml,.env}');
+    this.watcher.onDidChange(() => this.refresh());
+    this.watcher.onDidCreate(() => this.refresh());
+    this.watcher.onDidDelete(() => this.refresh());
+  }
+
+  refresh(): void {
+    this.config = undefined;
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(element: AiderConfigTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: AiderConfigTreeItem): AiderConfigTreeItem[] {
+    const config = this.load();
+    if (!config) {
+      return [];
+    }
+
+    if (!element) {
+      return [
+        new AiderConfigSectionItem(
+          'files',
+          'Config files',
+          [...config.configFiles, ...config.envFiles].filter(file => file.exists).length
+        ),
+        new AiderConfigSectionItem('options', 'Options', config.options.length),
+        new AiderConfigSectionItem('env', 'Environment', config.env.length)
+      ];
+    }
+    if (!(element instanceof AiderConfigSectionItem)) {
+      return [];
+    }
+
+    switch (element.section) {
+      case 'files':
+        return [...config.configFiles, ...config.envFiles].map(
+          file => new AiderConfigFileItem(file)
+        );
+      case 'options':
+        return config.options.map(entry => new AiderConfigEntryItem(entry));
+      case 'env':
+        return config.env.map(entry => new AiderConfigEntryItem(entry));
+    }
+  }
+
+  dispose(): void {
+    this.watcher.dispose();
+    this.changeEmitter.dispose();
+  }
+
+  private load(): EffectiveAiderConfig | undefined {
+    const folder = this.currentFolder();
+    this.shownFolder = folder;
+    if (!folder) {
+      this.config = undefined;
+      return undefined;
+    }
+    if (this.config?.cwd !== folder) {
+      this.config = loadAiderConfig(folder);
+    }
+    return this.config;
+  }
+
+  private currentFolder(): string | undefined {
+    return (
+      this.sessionManager.activeSession?.workspaceFolder ||
+      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+    );
+  }
+}
+
+function formatConfigValue(entry: AiderConfigEntry): string {
+  if (isSecretName(entry.key)) {
+    return '***';
+  }
+  // set-env carries NAME=VALUE pairs, as a list or a mapping
+  if (Array.isArray(entry.value)) {
+    return entry.value.map(item => maskPair(String(item))).join(', ');
+  }
+  if (entry.value !== null && typeof entry.value === 'object') {
+    return Object.entries(entry.value as Record<string, unknown>)
+      .map(([name, item]) => maskPair(`${name}=${item}`))
+      .join(', ');
+  }
+  return String(entry.value);
+}
+
+function maskPair(pair: string): string {
+  const name = pair.split('=')[0];
+  return pair.includes('=') && isSecretName(name) ? `${name}=***` : pair;
+}
+
+function openFileCommand(file: AiderConfigFile): vscode.Command {
+  return {
+    command: 'vscode.open',
+    title: 'Open File',
+    arguments: [vscode.Uri.file(file.path)]
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * ChangeDecorationProvider - marks code Aider changed in editors and the explorer
+ * Gutter markers on changed lines, an explorer badge and a hover linking to the turn
+ */
+
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { ChangeTracker } from '../services/ChangeTracker';
+
+// Thin bar in the gutter, in the same spirit as the SCM change markers
+const GUTTER_ICON = vscode.Uri.parse(
+  'data:image/svg+xml;utf8,' +
+    encodeURIComponent(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16">' +
+        '<rect x="5" y="0" width="3" height="16" fill="#a371f7"/></svg>'
+    )
+);
+
+export class ChangeDecorationProvider
+  implements vscode.FileDecorationProvider, vscode.HoverProvider
+{
+  private readonly decorationType: vscode.TextEditorDecorationType;
+  private readonly decorationsEmitter = new vscode.EventEmitter<vscode.Uri[]>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  readonly onDidChangeFileDecorations = this.decorationsEmitter.event;
+
+  constructor(private readonly tracker: ChangeTracker) {
+    this.decorationType = vscode.window.createTextEditorDecorationType({
+      gutterIconPath: GUTTER_ICON,
+      gutterIconSize: 'contain',
+      overviewRulerColor: '#a371f7',
+      overviewRulerLane: vscode.OverviewRulerLane.Left
+    });
+
+    this.tracker.onChanged(fsPaths => {
+      this.decorationsEmitter.fire(fsPaths.map(fsPath => vscode.Uri.file(fsPath)));
+      this.decorateVisibleEditors();
+    });
+    this.disposables.push(
+      vscode.window.onDidChangeVisibleTextEditors(() => this.decorateVisibleEditors())
+    );
+  }
+
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (uri.scheme !== 'file' || this.tracker.getChanges(uri.fsPath).length === 0) {
+      return undefined;
+    }
+    return new vscode.FileDecoration('AI', 'Changed by Aider, not yet reviewed');
+  }
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const change = this.tracker
+      .getChanges(document.uri.fsPath)
+      .find(candidate =>
+        candidate.ranges.some(range => range.start <= position.line && position.line <= range.end)
+      );
+    if (!change) {
+      return undefined;
+    }
+
+    // The message can be pasted output or diagnostics, so it goes in as plain text and only
+    // the Show turn link is trusted to run a command
+    const summary = new vscode.MarkdownString(
+      `**Changed by Aider** at ${change.changedAt.toLocaleTimeString()}\n\n`
+    );
+    summary.appendMarkdown('> ');
+    summary.appendText(change.message.replace(/\n/g, ' '));
+    const args = encodeURIComponent(JSON.stringify([change.turnId, change.fsPath]));
+    const showTurn = new vscode.MarkdownString(
+      `[Show turn](command:${EXTENSION_CONFIG.COMMANDS.REVIEW_SHOW_TURN}?${args})`
+    );
+    showTurn.isTrusted = true;
+    return new vscode.Hover([summary, showTurn]);
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.decorationType.dispose();
+    this.decorationsEmitter.dispose();
+  }
+
+  private decorateVisibleEditors(): void {
+    vscode.window.visibleTextEditors.forEach(editor => {
+      const ranges = this.tracker
+        .getChanges(editor.document.uri.fsPath)
+        .flatMap(change => change.ranges)
+        .map(range => new vscode.Range(range.start, 0, range.end, 0));
+      editor.setDecorations(this.decorationType, ranges);
+    });
+  }
+}
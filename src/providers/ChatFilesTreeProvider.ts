@@ -0,0 +1,105 @@
+/**
+ * ChatFilesTreeProvider - lists the active session's chat files in the sidebar
+ * Files are grouped into editable and read-only, as tracked from Aider's output
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AiderSession } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { SessionManager } from '../services/SessionManager';
+
+type ChatFileGroup = 'editable' | 'readOnly';
+
+export class ChatFileGroupItem extends vscode.TreeItem {
+  constructor(
+    readonly group: ChatFileGroup,
+    count: number
+  ) {
+    super(
+      group === 'editable' ? 'Editable' : 'Read-only',
+      vscode.TreeItemCollapsibleState.Expanded
+    );
+    this.id = `aider-chat-files-${group}`;
+    this.description = `${count}`;
+    this.contextValue = 'aiderChatFileGroup';
+  }
+}
+
+export class ChatFileItem extends vscode.TreeItem {
+  constructor(
+    readonly session: AiderSession,
+    readonly file: string,
+    readonly group: ChatFileGroup
+  ) {
+    super(path.basename(file), vscode.TreeItemCollapsibleState.None);
+
+    this.resourceUri = vscode.Uri.file(path.resolve(session.workspaceFolder, file));
+    this.description = path.dirname(file) === '.' ? undefined : path.dirname(file);
+    this.tooltip = `${file} (${group === 'editable' ? 'editable' : 'read-only'})`;
+    this.contextValue = group === 'editable' ? 'aiderChatFile.editable' : 'aiderChatFile.readOnly';
+    this.command = {
+      command: EXTENSION_CONFIG.COMMANDS.CHAT_FILES_OPEN,
+      title: 'Open File',
+      arguments: [this]
+    };
+  }
+}
+
+export type ChatFilesTreeItem = ChatFileGroupItem | ChatFileItem;
+
+export class ChatFilesTreeProvider implements vscode.TreeDataProvider<ChatFilesTreeItem> {
+  private readonly changeEmitter = new vscode.EventEmitter<ChatFilesTreeItem | undefined>();
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly sessionManager: SessionManager) {
+    // Follow both the active session and changes to its files
+    this.sessionManager.onSessionsChanged(() => this.refresh());
+    this.sessionManager.onChatFilesChanged(session => {
+      if (session.id === this.sessionManager.activeSession?.id) {
+        this.refresh();
+      }
+    });
+  }
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(element: ChatFilesTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: ChatFilesTreeItem): ChatFilesTreeItem[] {
+    const session = this.sessionManager.activeSession;
+    if (!session) {
+      return [];
+    }
+
+    if (!element) {
+      const { editable, readOnly } = session.chatFiles;
+      if (editable.length === 0 && readOnly.length === 0) {
+        return [];
+      }
+      return [
+        new ChatFileGroupItem('editable', editable.length),
+        new ChatFileGroupItem('readOnly', readOnly.length)
+      ];
+    }
+
+    if (element instanceof ChatFileGroupItem) {
+      const files =
+        element.group === 'editable' ? session.chatFiles.editable : session.chatFiles.readOnly;
+      return files
+        .sort((a, b) => a.localeCompare(b))
+        .map(file => new ChatFileItem(session, file, element.group));
+    }
+
+    return [];
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
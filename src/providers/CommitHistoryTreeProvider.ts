@@ -0,0 +1,102 @@
+/**
+ * CommitHistoryTreeProvider - lists the active session's Aider commits in the sidebar
+ * Each commit expands into the files it changed; clicking a file opens its diff
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AiderCommit } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { SessionManager } from '../services/SessionManager';
+import { CommitHistoryService } from '../services/CommitHistoryService';
+
+export class CommitItem extends vscode.TreeItem {
+  constructor(readonly commit: AiderCommit) {
+    super(commit.message, vscode.TreeItemCollapsibleState.Collapsed);
+
+    this.id = `aider-commit-${commit.hash}`;
+    this.description = `${commit.shortHash} · ${commit.committedAt.toLocaleTimeString()}`;
+    this.tooltip = `${commit.shortHash} ${commit.message}\n${commit.author}, ${commit.committedAt.toLocaleString()}`;
+    this.iconPath = new vscode.ThemeIcon('git-commit');
+    this.contextValue = 'aiderCommit';
+  }
+}
+
+export class CommitFileItem extends vscode.TreeItem {
+  constructor(
+    readonly commit: AiderCommit,
+    readonly file: string
+  ) {
+    super(path.basename(file), vscode.TreeItemCollapsibleState.None);
+
+    this.id = `aider-commit-${commit.hash}-${file}`;
+    this.resourceUri = vscode.Uri.file(path.resolve(commit.workspaceFolder, file));
+    this.description = path.dirname(file) === '.' ? undefined : path.dirname(file);
+    this.contextValue = 'aiderCommitFile';
+    this.command = {
+      command: EXTENSION_CONFIG.COMMANDS.COMMITS_OPEN_DIFF,
+      title: 'Open Diff',
+      arguments: [this]
+    };
+  }
+}
+
+export type CommitHistoryTreeItem = CommitItem | CommitFileItem;
+
+export class CommitHistoryTreeProvider implements vscode.TreeDataProvider<CommitHistoryTreeItem> {
+  private readonly changeEmitter = new vscode.EventEmitter<CommitHistoryTreeItem | undefined>();
+  private shownSessionId: string | undefined;
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(
+    private readonly sessionManager: SessionManager,
+    private readonly history: CommitHistoryService
+  ) {
+    // Reload from git when another session becomes active
+    this.sessionManager.onSessionsChanged(() => {
+      const session = this.sessionManager.activeSession;
+      if (session?.id !== this.shownSessionId) {
+        this.shownSessionId = session?.id;
+        if (session) {
+          this.history.refresh(session);
+        } else {
+          this.refresh();
+        }
+      }
+    });
+    this.history.onChanged(sessionId => {
+      if (sessionId === this.sessionManager.activeSession?.id) {
+        this.refresh();
+      }
+    });
+  }
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(element: CommitHistoryTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: CommitHistoryTreeItem): Promise<CommitHistoryTreeItem[]> {
+    if (!element) {
+      const session = this.sessionManager.activeSession;
+      return session
+        ? this.history.getCommits(session.id).map(commit => new CommitItem(commit))
+        : [];
+    }
+
+    if (element instanceof CommitItem) {
+      const files = await this.history.getChangedFiles(element.commit).catch(() => []);
+      return files.map(file => new CommitFileItem(element.commit, file));
+    }
+
+    return [];
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
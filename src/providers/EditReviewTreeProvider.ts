@@ -0,0 +1,81 @@
+/**
+ * EditReviewTreeProvider - lists Aider's edits awaiting review in the sidebar
+ * One node per turn with its edited files; inline actions accept or revert
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { EditReviewFile, EditTurn } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { EditReviewService } from '../services/EditReviewService';
+
+export class EditTurnItem extends vscode.TreeItem {
+  constructor(readonly turn: EditTurn) {
+    super(turn.message, vscode.TreeItemCollapsibleState.Expanded);
+
+    const pending = turn.files.filter(file => file.status === 'pending').length;
+    this.id = `aider-edit-${turn.id}`;
+    this.description = [turn.startedAt.toLocaleTimeString(), turn.commitHash, `${pending} pending`]
+      .filter(Boolean)
+      .join(' · ');
+    this.tooltip = turn.message;
+    this.contextValue = 'aiderEditTurn';
+  }
+}
+
+export class EditFileItem extends vscode.TreeItem {
+  constructor(
+    readonly turn: EditTurn,
+    readonly file: EditReviewFile
+  ) {
+    super(path.basename(file.path), vscode.TreeItemCollapsibleState.None);
+
+    this.id = `aider-edit-${turn.id}-${file.path}`;
+    this.resourceUri = vscode.Uri.file(path.resolve(turn.workspaceFolder, file.path));
+    this.description = file.status === 'pending' ? path.dirname(file.path) : file.status;
+    this.tooltip = `${file.path} (${file.status})`;
+    this.contextValue = `aiderEditFile.${file.status}`;
+    this.command = {
+      command: EXTENSION_CONFIG.COMMANDS.REVIEW_OPEN_DIFF,
+      title: 'Open Diff',
+      arguments: [this]
+    };
+  }
+}
+
+export type EditReviewTreeItem = EditTurnItem | EditFileItem;
+
+export class EditReviewTreeProvider implements vscode.TreeDataProvider<EditReviewTreeItem> {
+  private readonly changeEmitter = new vscode.EventEmitter<EditReviewTreeItem | undefined>();
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly review: EditReviewService) {
+    this.review.onChanged(() => this.refresh());
+  }
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(element: EditReviewTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: EditReviewTreeItem): EditReviewTreeItem[] {
+    if (!element) {
+      // Newest turn first
+      return this.review.pendingTurns.reverse().map(turn => new EditTurnItem(turn));
+    }
+
+    if (element instanceof EditTurnItem) {
+      return element.turn.files.map(file => new EditFileItem(element.turn, file));
+    }
+
+    return [];
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
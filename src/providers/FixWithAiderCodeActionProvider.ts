@@ -0,0 +1,56 @@
+/**
+ * FixWithAiderCodeActionProvider - offers "Fix with Aider" in the Quick Fix menu
+ * One action for the diagnostics under the cursor, one for every problem in the file
+ */
+
+import * as vscode from 'vscode';
+import { EXTENSION_CONFIG } from '../config/constants';
+
+export class FixWithAiderCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const diagnostics = context.diagnostics.filter(isFixable);
+    if (diagnostics.length === 0) {
+      return [];
+    }
+
+    const fix = new vscode.CodeAction('Fix with Aider', vscode.CodeActionKind.QuickFix);
+    fix.diagnostics = diagnostics;
+    fix.command = {
+      command: EXTENSION_CONFIG.COMMANDS.FIX_WITH_AIDER,
+      title: 'Fix with Aider',
+      arguments: [document.uri, diagnostics]
+    };
+
+    const fileProblems = vscode.languages.getDiagnostics(document.uri).filter(isFixable);
+    if (fileProblems.length <= diagnostics.length) {
+      return [fix];
+    }
+
+    const fixFile = new vscode.CodeAction(
+      `Fix all ${fileProblems.length} problems in this file with Aider`,
+      vscode.CodeActionKind.QuickFix
+    );
+    fixFile.command = {
+      command: EXTENSION_CONFIG.COMMANDS.FIX_FILE_WITH_AIDER,
+      title: 'Fix File with Aider',
+      arguments: [document.uri]
+    };
+    return [fix, fixFile];
+  }
+}
+
+/**
+ * Errors and warnings; hints and infos are left alone
+ */
+export function isFixable(diagnostic: vscode.Diagnostic): boolean {
+  return (
+    diagnostic.severity === vscode.DiagnosticSeverity.Error ||
+    diagnostic.severity === vscode.DiagnosticSeverity.Warning
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * InlineDiffProvider - shows the result of an inline edit right in the editor
+ * Added lines are highlighted, removed ones summarized with a hover, and CodeLenses accept or reject
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DiffHunk, EditReviewFile, EditTurn } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { EditReviewService } from '../services/EditReviewService';
+import { handleError } from '../utils/errorHandler';
+import { diffHunks } from '../utils/lineDiff';
+
+interface InlineDiff {
+  turn: EditTurn;
+  file: EditReviewFile;
+  fsPath: string;
+  hunks: DiffHunk[];
+}
+
+export class InlineDiffProvider implements vscode.CodeLensProvider {
+  private diffs: InlineDiff[] = [];
+  private readonly addedDecoration: vscode.TextEditorDecorationType;
+  private readonly removedDecoration: vscode.TextEditorDecorationType;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  constructor(private readonly review: EditReviewService) {
+    this.addedDecoration = vscode.window.createTextEditorDecorationType({
+      isWholeLine: true,
+      backgroundColor: new vscode.ThemeColor('diffEditor.insertedLineBackground')
+    });
+    this.removedDecoration = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor('editorCodeLens.foreground'),
+        fontStyle: 'italic',
+        margin: '0 0 0 2em'
+      }
+    });
+
+    this.review.onTurnClosed(turn => {
+      if (turn.origin !== 'inline') {
+        return;
+      }
+      this.show(turn).catch(error => handleError(error, 'inline_diff_show'));
+    });
+    // Accepted or rejected from here, the Edit Review view or the diff editor
+    this.review.onChanged(() => this.dropSettled());
+    this.disposables.push(
+      vscode.window.onDidChangeVisibleTextEditors(() => this.decorateVisibleEditors())
+    );
+  }
+
+  /**
+   * Find the inline diff shown for a file
+   */
+  find(turnId: string, fsPath: string): { turn: EditTurn; file: EditReviewFile } | undefined {
+    const diff = this.diffs.find(
+      candidate => candidate.turn.id === turnId && candidate.fsPath === fsPath
+    );
+    return diff && { turn: diff.turn, file: diff.file };
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    return this.diffs
+      .filter(diff => diff.fsPath === document.uri.fsPath && diff.hunks.length > 0)
+      .flatMap(diff => {
+        const line = Math.min(diff.hunks[0].start, document.lineCount - 1);
+        const range = new vscode.Range(line, 0, line, 0);
+        const args = [diff.turn.id, diff.fsPath];
+        return [
+          new vscode.CodeLens(range, {
+            title: '$(check) Accept Aider edit',
+            command: EXTENSION_CONFIG.COMMANDS.INLINE_EDIT_ACCEPT,
+            arguments: args
+          }),
+          new vscode.CodeLens(range, {
+            title: '$(discard) Reject',
+            command: EXTENSION_CONFIG.COMMANDS.INLINE_EDIT_REJECT,
+            arguments: args
+          })
+        ];
+      });
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.addedDecoration.dispose();
+    this.removedDecoration.dispose();
+    this.changeEmitter.dispose();
+    this.diffs = [];
+  }
+
+  private async show(turn: EditTurn): Promise<void> {
+    for (const file of turn.files) {
+      const fsPath = path.resolve(turn.workspaceFolder, file.path);
+      const original = await this.review.getOriginalContent(turn, file).catch(() => null);
+      const current = await fs.promises.readFile(fsPath, 'utf8').catch(() => '');
+      this.diffs.push({ turn, file, fsPath, hunks: diffHunks(original, current) });
+
+      // Bring edited files that are not open into view, as the diff editor would
+      if (!vscode.window.visibleTextEditors.some(editor => editor.document.uri.fsPath === fsPath)) {
+        await vscode.window.showTextDocument(vscode.Uri.file(fsPath), { preview: false });
+      }
+    }
+
+    this.changeEmitter.fire();
+    this.decorateVisibleEditors();
+  }
+
+  private dropSettled(): void {
+    const before = this.diffs.length;
+    this.diffs = this.diffs.filter(
+      diff => diff.file.status === 'pending' && this.review.pendingTurns.includes(diff.turn)
+    );
+    if (this.diffs.length !== before) {
+      this.changeEmitter.fire();
+      this.decorateVisibleEditors();
+    }
+  }
+
+  private decorateVisibleEditors(): void {
+    vscode.window.visibleTextEditors.forEach(editor => {
+      const hunks = this.diffs
+        .filter(diff => diff.fsPath === editor.document.uri.fsPath)
+        .flatMap(diff => diff.hunks);
+      const lastLine = editor.document.lineCount - 1;
+
+      editor.setDecorations(
+        this.addedDecoration,
+        hunks
+          .filter(hunk => hunk.added > 0)
+          .map(hunk => new vscode.Range(hunk.start, 0, hunk.start + hunk.added - 1, 0))
+      );
+      editor.setDecorations(
+        this.removedDecoration,
+        hunks
+          .filter(hunk => hunk.removed.length > 0)
+          .map(hunk => {
+            // Summarize the removed lines after the line they used to follow
+            const line = Math.min(Math.max(hunk.start + hunk.added - 1, 0), lastLine);
+            const count = hunk.removed.length;
+            const hover = new vscode.MarkdownString();
+            hover.appendCodeblock(hunk.removed.join('\n'), editor.document.languageId);
+            return {
+              range: editor.document.lineAt(line).range,
+              hoverMessage: hover,
+              renderOptions: {
+                after: { contentText: `− ${count} line${count === 1 ? '' : 's'} removed by Aider` }
+              }
+            };
+          })
+      );
+    });
+  }
+}
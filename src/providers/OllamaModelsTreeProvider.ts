@@ -0,0 +1,122 @@
+/**
+ * OllamaModelsTreeProvider - lists the models on the Ollama server in the sidebar
+ * Installed models show their size and whether they are loaded; configured models
+ * that are not installed yet can be pulled from here
+ */
+
+import * as vscode from 'vscode';
+import { OllamaModel } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { ModelCatalogService } from '../services/ModelCatalogService';
+import { OllamaDiscoveryService } from '../services/OllamaDiscoveryService';
+import { formatModelSize } from '../utils/ollama';
+
+export class OllamaModelItem extends vscode.TreeItem {
+  constructor(
+    readonly model: OllamaModel,
+    loaded: boolean
+  ) {
+    super(model.name, vscode.TreeItemCollapsibleState.None);
+
+    this.id = `aider-ollama-${model.name}`;
+    this.description = [formatModelSize(model.size), model.family, loaded ? 'loaded' : undefined]
+      .filter(Boolean)
+      .join(' · ');
+    this.tooltip = [
+      model.name,
+      model.parameterSize && `${model.parameterSize} parameters`,
+      model.quantization && `Quantization: ${model.quantization}`,
+      model.modifiedAt && `Modified ${model.modifiedAt.toLocaleString()}`,
+      loaded ? 'Loaded in memory' : undefined
+    ]
+      .filter(Boolean)
+      .join('\n');
+    this.iconPath = new vscode.ThemeIcon(loaded ? 'pass-filled' : 'package');
+    this.contextValue = 'aiderOllamaModel';
+  }
+}
+
+export class MissingOllamaModelItem extends vscode.TreeItem {
+  constructor(readonly name: string) {
+    super(name, vscode.TreeItemCollapsibleState.None);
+
+    this.id = `aider-ollama-missing-${name}`;
+    this.description = 'not installed';
+    this.tooltip = `${name} is configured for Aider but not installed on the Ollama server`;
+    this.iconPath = new vscode.ThemeIcon('cloud-download');
+    this.contextValue = 'aiderOllamaMissingModel';
+  }
+}
+
+export class OllamaStatusItem extends vscode.TreeItem {
+  constructor(apiBase: string, error: Error) {
+    super(`Ollama at ${apiBase} is unreachable`, vscode.TreeItemCollapsibleState.None);
+
+    this.description = error.message;
+    this.tooltip = `${error.message}\nSet OLLAMA_API_BASE to your Ollama server.`;
+    this.iconPath = new vscode.ThemeIcon('warning');
+    this.command = {
+      command: EXTENSION_CONFIG.COMMANDS.OLLAMA_REFRESH,
+      title: 'Retry'
+    };
+  }
+}
+
+export type OllamaModelsTreeItem = OllamaModelItem | MissingOllamaModelItem | OllamaStatusItem;
+
+export class OllamaModelsTreeProvider implements vscode.TreeDataProvider<OllamaModelsTreeItem> {
+  private readonly changeEmitter = new vscode.EventEmitter<OllamaModelsTreeItem | undefined>();
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(
+    private readonly discovery: OllamaDiscoveryService,
+    private readonly catalog: ModelCatalogService
+  ) {
+    this.discovery.onChanged(() => this.refresh());
+    this.catalog.onChanged(() => this.refresh());
+  }
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(element: OllamaModelsTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: OllamaModelsTreeItem): OllamaModelsTreeItem[] {
+    if (element) {
+      return [];
+    }
+
+    const error = this.discovery.error;
+    if (error) {
+      return [new OllamaStatusItem(this.discovery.apiBase, error)];
+    }
+
+    const installed = this.discovery.models;
+    const installedNames = new Set(installed.map(model => withTag(model.name)));
+    const missing = this.catalog
+      .getConfiguredModels()
+      .filter(model => model.id.startsWith(EXTENSION_CONFIG.OLLAMA.MODEL_PREFIX))
+      .map(model => model.id.slice(EXTENSION_CONFIG.OLLAMA.MODEL_PREFIX.length))
+      .filter(name => !installedNames.has(withTag(name)));
+
+    return [
+      ...installed.map(model => new OllamaModelItem(model, this.discovery.isLoaded(model.name))),
+      ...missing.map(name => new MissingOllamaModelItem(name))
+    ];
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * Ollama treats a model name without a tag as ":latest"
+ */
+function withTag(name: string): string {
+  return name.includes(':') ? name : `${name}:latest`;
+}
@@ -0,0 +1,54 @@
+/**
+ * SnapshotContentProvider - serves read-only in-memory documents
+ * Used for "before" sides of diffs and for Aider replies shown in an editor
+ */
+
+import * as vscode from 'vscode';
+
+export class SnapshotContentProvider implements vscode.TextDocumentContentProvider {
+  public static readonly scheme = 'aider-snapshot';
+
+  private readonly contents = new Map<string, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private snapshotCounter = 0;
+
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor() {
+    // Every store() gets a new URI, so a closed document's content is never asked for again
+    this.disposables.push(
+      vscode.workspace.onDidCloseTextDocument(document => {
+        if (document.uri.scheme === SnapshotContentProvider.scheme) {
+          this.contents.delete(document.uri.toString());
+        }
+      })
+    );
+  }
+
+  /**
+   * Store content and return a URI for it; the file name's extension selects the language
+   */
+  store(fileName: string, content: string): vscode.Uri {
+    this.snapshotCounter++;
+    const uri = vscode.Uri.from({
+      scheme: SnapshotContentProvider.scheme,
+      path: `/${fileName}`,
+      query: `${this.snapshotCounter}`
+    });
+
+    this.contents.set(uri.toString(), content);
+    this.changeEmitter.fire(uri);
+    return uri;
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) || '';
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.contents.clear();
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * AiderOutputParser service - turns the raw PTY stream into typed events
+ * Strips ANSI, buffers partial lines and tracks reply/edit-block state
+ */
+
+import { AiderOutputEvent } from '../types';
+import { stripAnsi } from '../utils/ansi';
+import { handleError } from '../utils/errorHandler';
+import { PromptRegistry } from './PromptRegistry';
+
+// Aider's input prompt: "> ", "diff> ", "ask> ", "architect> ", "diff multi> " ...
+const PROMPT_PATTERN = /^((?:[a-z-]+ )*[a-z-]*)> $/;
+const INPUT_PATTERN = /^(?:[a-z-]+ )*[a-z-]*> (.+)$/;
+const APPLIED_EDIT_PATTERN = /^Applied edit to (.+?)\.?$/;
+const COMMIT_PATTERN = /^Commit ([0-9a-f]{7,40}) (.+)$/;
+const TOKENS_PATTERN =
+  /^Tokens: ([\d.]+[kM]?) sent(?:, [\d.]+[kM]? cache \w+)*, ([\d.]+[kM]?) received\.?(.*)$/;
+const COST_PATTERN = /Cost: \$([\d.]+) message, \$([\d.]+) session/;
+const WARNING_PATTERN = /^warning\b:?/i;
+// Announced at startup and after /model: "Main model: gpt-4o with diff edit format, ..."
+const MODEL_PATTERN = /^(?:Main model|Model): (\S+) with (\S+) edit format/;
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+const FENCE_PATTERN = /^```/;
+
+type ParserState = 'idle' | 'reply' | 'search' | 'replace';
+
+export class AiderOutputParser {
+  private lineBuffer: string = '';
+  private state: ParserState = 'idle';
+  private awaitingInput: boolean = false;
+  private lastPrompt: string | undefined;
+  private candidateFile: string | undefined;
+  private lastLine: string | undefined;
+  private editBlock: { file: string; search: string[]; replace: string[]; raw: string[] } | null =
+    null;
+  private eventCallbacks: ((event: AiderOutputEvent) => void)[] = [];
+
+  /**
+   * Feed a raw PTY chunk; events are emitted for every complete line
+   */
+  feed(data: string): void {
+    this.lineBuffer += stripAnsi(data);
+
+    const lines = this.lineBuffer.split('\n');
+    this.lineBuffer = lines.pop() || '';
+    lines.forEach(line => this.processLine(line.replace(/\s+$/, '')));
+
+    // Prompts never end with a newline, so check the pending partial line
+    this.detectPrompt(this.lineBuffer);
+  }
+
+  /**
+   * Emit whatever is left in the line buffer (e.g. on process exit)
+   */
+  flush(): void {
+    if (this.lineBuffer.trim()) {
+      this.processLine(this.lineBuffer.replace(/\s+$/, ''));
+    }
+    this.lineBuffer = '';
+  }
+
+  reset(): void {
+    this.lineBuffer = '';
+    this.state = 'idle';
+    this.awaitingInput = false;
+    this.lastPrompt = undefined;
+    this.candidateFile = undefined;
+    this.lastLine = undefined;
+    this.editBlock = null;
+  }
+
+  onEvent(callback: (event: AiderOutputEvent) => void): void {
+    this.eventCallbacks.push(callback);
+  }
+
+  dispose(): void {
+    this.eventCallbacks = [];
+  }
+
+  private detectPrompt(partial: string): void {
+    if (!partial.trim() || this.lastPrompt === partial) {
+      return;
+    }
+
+    const match = partial.match(PROMPT_PATTERN);
+    if (match) {
+      this.lastPrompt = partial;
+      this.awaitingInput = true;
+      this.state = 'idle';
+      this.emit({ type: 'prompt', text: partial, mode: match[1].trim() });
+      return;
+    }
+
+    const prompt = PromptRegistry.parse(partial, this.lastLine);
+    if (prompt) {
+      this.lastPrompt = partial;
+      this.emit({ type: 'confirm', text: partial.trim(), prompt });
+    }
+  }
+
+  private processLine(line: string): void {
+    this.lastPrompt = undefined;
+
+    if (this.state === 'search' || this.state === 'replace') {
+      this.processEditBlockLine(line);
+      return;
+    }
+
+    if (!line.trim()) {
+      return;
+    }
+
+    if (this.awaitingInput) {
+      this.awaitingInput = false;
+      const input = line.match(INPUT_PATTERN);
+      if (input) {
+        this.state = 'reply';
+        this.emit({ type: 'input', text: input[1] });
+        return;
+      }
+    }
+
+    if (SEARCH_MARKER.test(line)) {
+      this.editBlock = { file: this.candidateFile || '', search: [], replace: [], raw: [line] };
+      this.state = 'search';
+      return;
+    }
+
+    const trimmed = line.trim();
+    this.lastLine = trimmed;
+    let match: RegExpMatchArray | null;
+
+    if ((match = trimmed.match(APPLIED_EDIT_PATTERN))) {
+      this.emit({ type: 'appliedEdit', text: trimmed, file: match[1] });
+    } else if ((match = trimmed.match(COMMIT_PATTERN))) {
+      this.emit({ type: 'commit', text: trimmed, hash: match[1], message: match[2] });
+    } else if ((match = trimmed.match(TOKENS_PATTERN))) {
+      const cost = match[3].match(COST_PATTERN);
+      this.state = 'idle';
+      this.emit({
+        type: 'tokens',
+        text: trimmed,
+        sent: parseTokenCount(match[1]),
+        received: parseTokenCount(match[2]),
+        messageCost: cost ? parseFloat(cost[1]) : undefined,
+        sessionCost: cost ? parseFloat(cost[2]) : undefined
+      });
+    } else if ((match = trimmed.match(MODEL_PATTERN))) {
+      this.emit({ type: 'model', text: trimmed, model: match[1], editFormat: match[2] });
+    } else if (WARNING_PATTERN.test(trimmed)) {
+      this.emit({ type: 'warning', text: trimmed });
+    } else if (this.state === 'reply') {
+      this.emit({ type: 'assistant', text: line });
+    } else {
+      this.emit({ type: 'info', text: line });
+    }
+
+    // SEARCH/REPLACE blocks are preceded by the file path, optionally followed by a fence
+    if (!FENCE_PATTERN.test(trimmed)) {
+      this.candidateFile = trimmed;
+    }
+  }
+
+  private processEditBlockLine(line: string): void {
+    const block = this.editBlock;
+    if (!block) {
+      this.state = 'reply';
+      return;
+    }
+
+    block.raw.push(line);
+
+    if (this.state === 'search' && DIVIDER_MARKER.test(line)) {
+      this.state = 'replace';
+    } else if (this.state === 'replace' && REPLACE_MARKER.test(line)) {
+      this.editBlock = null;
+      this.state = 'reply';
+      this.emit({
+        type: 'editBlock',
+        text: block.raw.join('\n'),
+        file: block.file,
+        search: block.search.join('\n'),
+        replace: block.replace.join('\n')
+      });
+    } else if (this.state === 'search') {
+      block.search.push(line);
+    } else {
+      block.replace.push(line);
+    }
+  }
+
+  private emit(event: AiderOutputEvent): void {
+    this.eventCallbacks.forEach(cb => {
+      try {
+        cb(event);
+      } catch (error) {
+        handleError(error, 'output_event_callback');
+      }
+    });
+  }
+}
+
+/**
+ * Parse Aider's abbreviated token counts ("2.3k", "1.1M", "950")
+ */
+function parseTokenCount(value: string): number {
+  const multiplier = value.endsWith('M') ? 1_000_000 : value.endsWith('k') ? 1_000 : 1;
+  return Math.round(parseFloat(value) * multiplier);
+}
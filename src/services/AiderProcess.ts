@@ -3,34 +3,75 @@
  * Follows Single Responsibility Principle and VS Code disposal patterns
  */
 
-import fs from 'fs';
-import path from 'path';
-import yaml from 'js-yaml';
 import * as vscode from 'vscode';
-import * as pty from '@lydell/node-pty';
-import { IAiderProcess, ProcessExitInfo, AiderError } from '../types';
+import {
+  IAiderProcess,
+  IAiderTransport,
+  TransportFactory,
+  ProcessExitInfo,
+  AiderError,
+  AiderOutputEvent,
+  AiderPrompt,
+  EffectiveAiderConfig
+} from '../types';
 import { EXTENSION_CONFIG, ENV_VARS } from '../config/constants';
 import { handleError } from '../utils/errorHandler';
+import { resolveOllamaApiBase } from '../utils/ollama';
+import { configToArgs, loadAiderConfig, maskSecretArgs } from '../utils/aiderConfig';
+import { AiderOutputParser } from './AiderOutputParser';
+import { TerminalStateModel } from './TerminalStateModel';
+import { spawnConfiguredTransport } from './transports';
 
 export class AiderProcess implements IAiderProcess {
-  private process: pty.IPty | null = null;
+  private process: IAiderTransport | null = null;
   private _currentModel: string = EXTENSION_CONFIG.DEFAULT_MODEL;
   private dataCallbacks: ((data: string) => void)[] = [];
   private exitCallbacks: ((exitInfo: ProcessExitInfo) => void)[] = [];
   private errorCallbacks: ((error: AiderError) => void)[] = [];
-  private promptCallbacks: ((prompt: { text: string; options: string[]; type: string }) => void)[] =
-    [];
+  private promptCallbacks: ((prompt: AiderPrompt) => void)[] = [];
+  private outputEventCallbacks: ((event: AiderOutputEvent) => void)[] = [];
+  private readyCallbacks: (() => void)[] = [];
+  private readyWaiters: { resolve: () => void; reject: (error: Error) => void }[] = [];
+  private exitWaiters: (() => void)[] = [];
+  private promptWaiters: ((atPrompt: boolean) => void)[] = [];
+  private _isReady: boolean = false;
+  // Aider is idle at its input prompt (not answering or asking a question)
+  private atPrompt: boolean = false;
   // Buffer incoming PTY data to handle sequences that may be split across packets
   private incomingBuffer: string = '';
+  private readonly outputParser = new AiderOutputParser();
+  private terminalModel: TerminalStateModel | null = null;
 
-  constructor() {
+  constructor(private readonly transportFactory: TransportFactory = spawnConfiguredTransport) {
     // Initialization happens in start()
+    this.outputParser.onEvent(event => {
+      if (event.type === 'confirm') {
+        this.notifyPrompt(event.prompt);
+      }
+      this.notifyOutputEvent(event);
+      if (event.type === 'prompt') {
+        this.atPrompt = true;
+        this.resolvePromptWaiters(true);
+        if (!this._isReady) {
+          this.markReady();
+        }
+      } else if (event.type === 'input' || event.type === 'confirm') {
+        this.atPrompt = false;
+      }
+    });
   }
 
   get isRunning(): boolean {
     return this.process !== null;
   }
 
+  /**
+   * True once Aider has shown its input prompt since the process started
+   */
+  get isReady(): boolean {
+    return this._isReady;
+  }
+
   get currentModel(): string {
     return this._currentModel;
   }
@@ -57,54 +98,82 @@ export class AiderProcess implements IAiderProcess {
     }
 
     this._currentModel = model;
+    this._isReady = false;
+    this.atPrompt = false;
+    this.outputParser.reset();
 
     try {
       console.log('🔧 Building process environment...');
-      const processEnv = this.buildProcessEnvironment(cols, rows);
-
-      console.log('📦 Dynamically importing node-pty...');
-      const pty = await import('@lydell/node-pty');
-      console.log('✅ node-pty imported successfully');
+      const config = loadAiderConfig(workspaceFolder);
+      const processEnv = AiderProcess.buildProcessEnvironment(config, cols, rows);
 
       // Build CLI args from aider.conf.yml + model
-      const args = this.buildAiderArgs(model);
+      const args = AiderProcess.buildAiderArgs(model, config);
 
-      console.log('🚀 Spawning aider process with args:', JSON.stringify(args));
+      console.log('🚀 Spawning aider process with args:', JSON.stringify(maskSecretArgs(args)));
       console.log(`📏 Using actual terminal size: ${cols}x${rows}`);
       console.log(`📏 Environment COLUMNS=${processEnv.COLUMNS}, LINES=${processEnv.LINES}`);
 
-      this.process = pty.spawn('aider', args, {
-        name: EXTENSION_CONFIG.TERMINAL.NAME,
-        cols: cols,
-        rows: rows,
+      this.process = await this.transportFactory({
+        args,
+        cwd: workspaceFolder,
         env: processEnv,
-        cwd: workspaceFolder
+        cols,
+        rows
       });
 
       console.log('✅ Aider process spawned successfully with correct size');
+      this.createTerminalModel(cols, rows);
       this.attachEventHandlers();
-
-      await this.captureInitialOutput();
     } catch (error) {
       this.process = null;
+      this.disposeTerminalModel();
       const aiderError = this.createAiderError(error, 'process_start');
       this.notifyError(aiderError);
       throw aiderError;
     }
   }
 
+  /**
+   * Stop Aider and wait for the process to exit, escalating /exit -> SIGTERM -> SIGKILL
+   */
   async stop(): Promise<void> {
     if (!this.process) {
       return;
     }
 
+    const config = vscode.workspace.getConfiguration('aider');
+    const exitTimeout = config.get<number>(
+      'exitTimeoutMs',
+      EXTENSION_CONFIG.SHUTDOWN.EXIT_TIMEOUT_MS
+    );
+    const terminateTimeout = config.get<number>(
+      'terminateTimeoutMs',
+      EXTENSION_CONFIG.SHUTDOWN.TERMINATE_TIMEOUT_MS
+    );
+
     try {
-      this.process.write('/exit\r');
-      await this.delay(1000);
+      // /exit is only understood at the input prompt
+      if (this._isReady) {
+        console.log('🛑 Asking Aider to exit...');
+        this.process.write('/exit\r');
+        if (await this.waitForExit(exitTimeout)) {
+          return;
+        }
+      }
 
-      if (this.process) {
-        this.process.kill();
+      console.log('🛑 Aider did not exit, sending SIGTERM');
+      this.killProcess('SIGTERM');
+      if (await this.waitForExit(terminateTimeout)) {
+        return;
+      }
+
+      console.warn('🛑 Aider ignored SIGTERM, sending SIGKILL');
+      this.killProcess('SIGKILL');
+      if (!(await this.waitForExit(EXTENSION_CONFIG.SHUTDOWN.KILL_TIMEOUT_MS))) {
+        console.error('Aider process did not report its exit after SIGKILL');
         this.process = null;
+        this.disposeTerminalModel();
       }
     } catch (error) {
       if (this.process) {
@@ -115,6 +184,41 @@ export class AiderProcess implements IAiderProcess {
     }
   }
 
+  /**
+   * Resolve once Aider shows its input prompt; rejects if the process exits first
+   * @param timeoutMs Optional limit after which the promise rejects
+   */
+  whenReady(timeoutMs?: number): Promise<void> {
+    if (this._isReady) {
+      return Promise.resolve();
+    }
+    if (!this.process) {
+      return Promise.reject(new Error('Aider process is not running'));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+      const waiter = {
+        resolve: (): void => {
+          clearTimeout(timer);
+          resolve();
+        },
+        reject: (error: Error): void => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          this.readyWaiters = this.readyWaiters.filter(w => w !== waiter);
+          reject(new Error(`Aider was not ready after ${timeoutMs}ms`));
+        }, timeoutMs);
+      }
+      this.readyWaiters.push(waiter);
+    });
+  }
+
   sendMessage(message: string): void {
     if (!this.process) {
       throw new Error('Aider process is not running');
@@ -122,7 +226,8 @@ export class AiderProcess implements IAiderProcess {
 
     try {
       const sanitizedMessage = this.sanitizeInput(message);
-      this.process.write(sanitizedMessage + '\r');
+      this.process.write(this.toInputLines(sanitizedMessage) + '\r');
+      this.atPrompt = false;
     } catch (error) {
       console.error('Error sending message to Aider process:', error);
       const aiderError = this.createAiderError(error, 'send_message');
@@ -131,6 +236,28 @@ export class AiderProcess implements IAiderProcess {
     }
   }
 
+  /**
+   * Send Ctrl-C to stop the current answer
+   * @returns true once Aider is back at its input prompt, false on timeout or exit
+   */
+  async interrupt(
+    timeoutMs: number = EXTENSION_CONFIG.SHUTDOWN.INTERRUPT_TIMEOUT_MS
+  ): Promise<boolean> {
+    if (!this.process || !this._isReady) {
+      return false;
+    }
+
+    // A Ctrl-C at an idle prompt would arm Aider's "^C again to exit"
+    if (this.atPrompt) {
+      return true;
+    }
+
+    const backAtPrompt = this.waitForPrompt(timeoutMs);
+    console.log('✋ Sending interrupt to Aider');
+    this.process.write('\x03');
+    return backAtPrompt;
+  }
+
   sendRawData(data: string): void {
     if (!this.process) {
       throw new Error('Aider process is not running');
@@ -153,6 +280,7 @@ export class AiderProcess implements IAiderProcess {
 
     try {
       this.process.resize(cols, rows);
+      this.terminalModel?.resize(cols, rows);
       console.log(`📏 PTY resized to ${cols}x${rows}`);
     } catch (error) {
       console.error('Error resizing terminal:', error);
@@ -171,35 +299,152 @@ export class AiderProcess implements IAiderProcess {
     this.errorCallbacks.push(callback);
   }
 
-  onPrompt(callback: (prompt: { text: string; options: string[]; type: string }) => void): void {
+  onPrompt(callback: (prompt: AiderPrompt) => void): void {
     this.promptCallbacks.push(callback);
   }
 
+  /**
+   * Called each time a started process first shows its input prompt
+   */
+  onReady(callback: () => void): void {
+    this.readyCallbacks.push(callback);
+  }
+
+  /**
+   * Subscribe to structured events parsed from Aider's output
+   */
+  onOutputEvent(callback: (event: AiderOutputEvent) => void): void {
+    this.outputEventCallbacks.push(callback);
+  }
+
   dispose(): void {
     if (this.process) {
       this.process.kill();
       this.process = null;
     }
+    this.disposeTerminalModel();
 
     this.dataCallbacks = [];
     this.exitCallbacks = [];
     this.errorCallbacks = [];
     this.promptCallbacks = [];
+    this.outputEventCallbacks = [];
+    this.readyCallbacks = [];
+    this.rejectReadyWaiters(new Error('Aider process was disposed'));
+    this.resolvePromptWaiters(false);
+    this.resolveExitWaiters();
+    this.outputParser.dispose();
   }
 
-  private async captureInitialOutput(): Promise<void> {
+  private markReady(): void {
+    this._isReady = true;
+    console.log('✅ Aider input prompt is ready');
+
+    const waiters = this.readyWaiters;
+    this.readyWaiters = [];
+    waiters.forEach(waiter => waiter.resolve());
+
+    this.readyCallbacks.forEach(cb => {
+      try {
+        cb();
+      } catch (error) {
+        handleError(error, 'ready_callback');
+      }
+    });
+  }
+
+  private rejectReadyWaiters(error: Error): void {
+    const waiters = this.readyWaiters;
+    this.readyWaiters = [];
+    waiters.forEach(waiter => waiter.reject(error));
+  }
+
+  private resolvePromptWaiters(atPrompt: boolean): void {
+    const waiters = this.promptWaiters;
+    this.promptWaiters = [];
+    waiters.forEach(resolve => resolve(atPrompt));
+  }
+
+  /**
+   * Resolve true when Aider shows its input prompt within the timeout
+   */
+  private waitForPrompt(timeoutMs: number): Promise<boolean> {
+    return new Promise(resolve => {
+      const onPrompt = (atPrompt: boolean): void => {
+        clearTimeout(timer);
+        resolve(atPrompt);
+      };
+      const timer = setTimeout(() => {
+        this.promptWaiters = this.promptWaiters.filter(waiter => waiter !== onPrompt);
+        resolve(false);
+      }, timeoutMs);
+      this.promptWaiters.push(onPrompt);
+    });
+  }
+
+  private resolveExitWaiters(): void {
+    const waiters = this.exitWaiters;
+    this.exitWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  /**
+   * Resolve true when the process exits within the timeout, false otherwise
+   */
+  private waitForExit(timeoutMs: number): Promise<boolean> {
     if (!this.process) {
-      return;
+      return Promise.resolve(true);
     }
 
-    // Wait for webview to be fully initialized and CPR handling to be ready
-    await this.delay(2000);
+    return new Promise(resolve => {
+      const onExit = (): void => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.exitWaiters = this.exitWaiters.filter(waiter => waiter !== onExit);
+        resolve(false);
+      }, timeoutMs);
+      this.exitWaiters.push(onExit);
+    });
+  }
+
+  private killProcess(signal: 'SIGTERM' | 'SIGKILL'): void {
+    this.process?.kill(signal);
+  }
+
+  /**
+   * Mirror the PTY in a headless terminal that answers CPR and other device-status queries
+   */
+  private createTerminalModel(cols: number, rows: number): void {
+    this.disposeTerminalModel();
+
+    const model = new TerminalStateModel(cols, rows);
+    model.onReply(reply => {
+      if (!this.process) {
+        return;
+      }
+      console.log('🎯 Answering terminal query from headless model:', JSON.stringify(reply));
+      this.process.write(reply);
+    });
+    this.terminalModel = model;
+  }
 
-    // Send a simple newline to trigger initial interaction
-    this.process.write('\r');
+  private disposeTerminalModel(): void {
+    if (this.terminalModel) {
+      this.terminalModel.dispose();
+      this.terminalModel = null;
+    }
   }
 
-  private buildProcessEnvironment(cols?: number, rows?: number): Record<string, string> {
+  /**
+   * Environment for an Aider process (PATH, .env files, Ollama API base, terminal hints)
+   */
+  static buildProcessEnvironment(
+    config: EffectiveAiderConfig,
+    cols?: number,
+    rows?: number
+  ): Record<string, string> {
     const baseEnv: Record<string, string> = {};
 
     Object.entries(process.env).forEach(([key, value]) => {
@@ -213,9 +458,13 @@ export class AiderProcess implements IAiderProcess {
       baseEnv[ENV_VARS.PATH] = `${currentPath}:${EXTENSION_CONFIG.PATHS.LOCAL_BIN}`;
     }
 
-    // Ollama API base from config or env
-    baseEnv[ENV_VARS.OLLAMA_API_BASE] =
-      process.env[ENV_VARS.OLLAMA_API_BASE] || EXTENSION_CONFIG.OLLAMA.DEFAULT_API_BASE;
+    // Like Aider, values from .env files override the inherited environment
+    config.env.forEach(entry => {
+      baseEnv[entry.key] = String(entry.value);
+    });
+
+    // Ollama API base from set-env, .env, env or the fallback
+    baseEnv[ENV_VARS.OLLAMA_API_BASE] = resolveOllamaApiBase(config);
 
     // Add terminal environment variables optimized for webview compatibility
     // Use xterm-256color but indicate this is a VS Code integrated terminal
@@ -238,9 +487,10 @@ export class AiderProcess implements IAiderProcess {
   }
 
   /**
-   * Build Aider CLI args using ~/.aider.conf.yml
+   * Build Aider CLI args from the model and the effective .aider.conf.yml
+   * Shared by chat sessions and one-shot quick asks
    */
-  private buildAiderArgs(model: string): string[] {
+  static buildAiderArgs(model: string, config: EffectiveAiderConfig): string[] {
     const args: string[] = ['--model', model];
 
     // Add terminal compatibility options
@@ -256,40 +506,8 @@ export class AiderProcess implements IAiderProcess {
       console.log('🎨 Keeping pretty output with colors and formatting');
     }
 
-    try {
-      const configPath = path.join(process.env.HOME || '', '.aider.conf.yml');
-      if (fs.existsSync(configPath)) {
-        const config = yaml.load(fs.readFileSync(configPath, 'utf8')) as Record<string, unknown>;
-
-        // add edit-format
-        if (config['edit-format']) {
-          args.push('--edit-format', config['edit-format'] as string);
-        }
-
-        // add show-diffs
-        if (config['show-diffs']) {
-          args.push('--show-diffs');
-        }
-
-        // add restore-chat-history
-        if (config['restore-chat-history']) {
-          args.push('--restore-chat-history');
-        }
-
-        // handle set-env (map into --set-env KEY=VAL args)
-        if (config['set-env']) {
-          const envConfig = config['set-env'];
-          if (typeof envConfig === 'object' && envConfig !== null) {
-            for (const [key, value] of Object.entries(envConfig)) {
-              args.push('--set-env');
-              args.push(`${key}=${value}`);
-            }
-          }
-        }
-      }
-    } catch (err) {
-      console.warn('⚠️ Could not read aider.conf.yml, falling back to defaults:', err);
-    }
+    // Every other option from the config files, with workspace files taking precedence
+    args.push(...configToArgs(config.options));
 
     // Add current directory as the target
     // Note: Removed '.' as aider doesn't accept directories as file arguments
@@ -304,8 +522,10 @@ export class AiderProcess implements IAiderProcess {
     }
 
     this.process.onData((data: string) => this.notifyData(data));
+    // Usually a write racing Aider's exit, which onExit reports on its own
+    this.process.onError?.(error => console.error('Aider transport error:', error));
 
-    this.process.onExit((exitInfo: { exitCode: number; signal?: number }) => {
+    this.process.onExit((exitInfo: ProcessExitInfo) => {
       const processExitInfo: ProcessExitInfo = {
         exitCode: exitInfo.exitCode,
         signal: exitInfo.signal
@@ -324,12 +544,46 @@ export class AiderProcess implements IAiderProcess {
       }
 
       this.process = null;
+      this._isReady = false;
+      this.atPrompt = false;
+      this.disposeTerminalModel();
+      this.incomingBuffer = '';
+      this.outputParser.flush();
+      this.rejectReadyWaiters(
+        new Error(`Aider exited with code ${exitInfo.exitCode} before it was ready`)
+      );
+      this.resolvePromptWaiters(false);
+      this.resolveExitWaiters();
       this.notifyExit(processExitInfo);
     });
   }
 
+  /**
+   * Every Enter submits a line, so wrap multi-line messages in Aider's {tag ... tag} block
+   */
+  private toInputLines(message: string): string {
+    const lines = message.split(/\r\n|\r|\n/);
+    return lines.length > 1 ? ['{aider', ...lines, 'aider}'].join('\r') : message;
+  }
+
   private sanitizeInput(input: string): string {
-    return input.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+    return this.expandTabs(input).replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+  }
+
+  /**
+   * Replace tabs with spaces up to the next tab stop, keeping pasted code aligned
+   */
+  private expandTabs(input: string): string {
+    const width = EXTENSION_CONFIG.TERMINAL.TAB_WIDTH;
+    return input
+      .split('\n')
+      .map(line =>
+        // Each match starts at a tab stop, so its own length gives the column
+        line.replace(/([^\t]*)\t/g, (_, before: string) =>
+          before.padEnd(before.length + width - (before.length % width))
+        )
+      )
+      .join('\n');
   }
 
   private createAiderError(error: unknown, context: string): AiderError {
@@ -341,45 +595,21 @@ export class AiderProcess implements IAiderProcess {
   }
 
   private notifyData(data: string): void {
-    // Robustly handle incoming PTY data by buffering it. This ensures escape
-    // sequences like CPR (\x1b[6n) are detected even if split across chunks.
-    const CPR_SEQ = '\x1b[6n';
-    const CPR_RESP = '\x1b[24;1R'; // More realistic cursor position (row 24, col 1)
+    // The headless model sees the stream unbuffered, in order, and replies to
+    // CPR (\x1b[6n) and other device-status queries with the real cursor state
+    this.terminalModel?.write(data);
 
+    // Buffer incoming PTY data so escape sequences split across chunks reach
+    // the callbacks whole
     this.incomingBuffer += data;
 
-    // Process any complete CPR sequences in the buffer
-    let idx = this.incomingBuffer.indexOf(CPR_SEQ);
-    while (idx !== -1) {
-      const before = this.incomingBuffer.slice(0, idx);
-      if (before) {
-        if (!this.handleInteractivePrompt(before)) {
-          this.dispatchToCallbacks(before);
-        }
-      }
-
-      // Respond immediately to CPR
-      try {
-        console.log('🎯 CPR request detected from Aider (buffered), responding immediately');
-        this.sendRawData(CPR_RESP);
-      } catch (err) {
-        console.error('❌ Error sending CPR response:', err);
-      }
-
-      // Remove processed part and continue
-      this.incomingBuffer = this.incomingBuffer.slice(idx + CPR_SEQ.length);
-      idx = this.incomingBuffer.indexOf(CPR_SEQ);
-    }
-
     // To avoid breaking escape sequences, keep a small tail in buffer. Flush
     // everything except the tail to callbacks.
     const MAX_TAIL = 16;
     if (this.incomingBuffer.length > MAX_TAIL) {
       const sendable = this.incomingBuffer.slice(0, this.incomingBuffer.length - MAX_TAIL);
       if (sendable) {
-        if (!this.handleInteractivePrompt(sendable)) {
-          this.dispatchToCallbacks(sendable);
-        }
+        this.dispatchToCallbacks(sendable);
       }
       this.incomingBuffer = this.incomingBuffer.slice(-MAX_TAIL);
     }
@@ -388,14 +618,14 @@ export class AiderProcess implements IAiderProcess {
     if (this.incomingBuffer && this.incomingBuffer.indexOf('\x1b') === -1) {
       const rem = this.incomingBuffer;
       this.incomingBuffer = '';
-      if (!this.handleInteractivePrompt(rem)) {
-        this.dispatchToCallbacks(rem);
-      }
+      this.dispatchToCallbacks(rem);
     }
   }
 
   // Helper to forward text to registered data callbacks with error handling
   private dispatchToCallbacks(text: string): void {
+    this.outputParser.feed(text);
+
     this.dataCallbacks.forEach(cb => {
       try {
         if (text) {
@@ -407,6 +637,16 @@ export class AiderProcess implements IAiderProcess {
     });
   }
 
+  private notifyOutputEvent(event: AiderOutputEvent): void {
+    this.outputEventCallbacks.forEach(cb => {
+      try {
+        cb(event);
+      } catch (error) {
+        handleError(error, 'output_event_callback');
+      }
+    });
+  }
+
   private notifyExit(exitInfo: ProcessExitInfo): void {
     this.exitCallbacks.forEach(cb => {
       try {
@@ -428,55 +668,18 @@ export class AiderProcess implements IAiderProcess {
   }
 
   /**
-   * Handle interactive prompts from Aider by showing them to the user
+   * Forward interactive prompts recognised by the output parser
    */
-  private handleInteractivePrompt(data: string): boolean {
-    // Check for common interactive prompts that need user response
-    const promptPatterns = [
-      /Press RETURN to continue/i,
-      /Press Enter to continue/i,
-      /Press any key to continue/i,
-      /WARNING: terminal is not fully functional/i,
-      /\(y\/n\)/i, // Yes/no prompts
-      /\[y\/N\]/i,
-      /\[Y\/n\]/i
-    ];
-
-    const needsResponse = promptPatterns.some(pattern => pattern.test(data));
-
-    if (needsResponse) {
-      console.log('Detected interactive prompt, showing to user:', data.trim());
-
-      // Determine the type of prompt and appropriate options
-      let options = ['Yes', 'No'];
-      let promptType = 'confirmation';
-
-      if (
-        data.toLowerCase().includes('press return') ||
-        data.toLowerCase().includes('press enter') ||
-        data.toLowerCase().includes('press any key')
-      ) {
-        options = ['Continue'];
-        promptType = 'continue';
-      }
+  private notifyPrompt(prompt: AiderPrompt): void {
+    console.log('Detected interactive prompt:', prompt.type, prompt.text);
 
-      // Send the prompt to the webview for user interaction
-      this.promptCallbacks.forEach(cb => {
-        try {
-          cb({
-            text: data.trim(),
-            options: options,
-            type: promptType
-          });
-        } catch (error) {
-          handleError(error, 'prompt_callback');
-        }
-      });
-
-      return true; // Indicate that we handled the prompt
-    }
-
-    return false; // Not an interactive prompt
+    this.promptCallbacks.forEach(cb => {
+      try {
+        cb(prompt);
+      } catch (error) {
+        handleError(error, 'prompt_callback');
+      }
+    });
   }
 
   /**
@@ -496,69 +699,4 @@ export class AiderProcess implements IAiderProcess {
       handleError(error, 'send_automatic_input');
     }
   }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
-  /**
-   * Read VS Code extra models configuration from ~/.aider.conf.yml
-   */
-  private static readVSCodeConfig(): Record<string, Record<string, unknown>> {
-    try {
-      const configPath = path.join(process.env.HOME || '', '.aider.conf.yml');
-      if (fs.existsSync(configPath)) {
-        const config = yaml.load(fs.readFileSync(configPath, 'utf8')) as Record<string, unknown>;
-        return (config['vscode-extra-models'] || {}) as Record<string, Record<string, unknown>>;
-      }
-    } catch (error) {
-      console.warn('Failed to read vscode-extra-models from config:', error);
-    }
-    return {};
-  }
-
-  /**
-   * Format model display name with edit format suffix
-   */
-  private static formatModelDisplayName(
-    modelId: string,
-    modelConfig: Record<string, unknown>
-  ): string {
-    const editFormat = modelConfig?.['edit-format'] || 'diff';
-    const formatSuffix = editFormat === 'udiff' ? ' (udiff)' : '';
-
-    // Convert model ID to display name
-    const displayName = modelId
-      .replace(/^[^/]+\//, '') // remove provider prefix (e.g. "openai/")
-      .replace(/-/g, ' ') // replace dashes with spaces
-      .replace(/\b\w/g, (l: string) => l.toUpperCase()); // capitalize first letter of each word
-
-    return `${displayName}${formatSuffix}`;
-  }
-
-  /**
-   * Static method to get available models from configuration
-   */
-  static getAvailableModels(): Array<{ id: string; displayName: string }> {
-    try {
-      const config = this.readVSCodeConfig();
-      const models = Object.entries(config).map(
-        ([modelId, modelConfig]: [string, Record<string, unknown>]) => ({
-          id: modelId,
-          displayName: this.formatModelDisplayName(modelId, modelConfig)
-        })
-      );
-      return models.length > 0 ? models : EXTENSION_CONFIG.AVAILABLE_MODELS;
-    } catch (error) {
-      console.warn('Failed to load dynamic models from config:', error);
-      return EXTENSION_CONFIG.AVAILABLE_MODELS;
-    }
-  }
-
-  /**
-   * Static method to get the default model
-   */
-  static getDefaultModel(): string {
-    return EXTENSION_CONFIG.DEFAULT_MODEL;
-  }
 }
@@ -0,0 +1,219 @@
+/**
+ * ChangeTracker service - records which lines Aider changed in each turn
+ * Watches running sessions' folders and diffs changed files against their pre-turn content
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AiderChange, EditTurn } from '../types';
+import { SessionManager } from './SessionManager';
+import { EditReviewService } from './EditReviewService';
+import { handleError } from '../utils/errorHandler';
+import { changedLineRanges } from '../utils/lineDiff';
+
+interface SessionWatch {
+  watcher: vscode.FileSystemWatcher;
+  // Files written while a turn was open, absolute paths
+  changed: Set<string>;
+}
+
+export class ChangeTracker {
+  private readonly watches = new Map<string, SessionWatch>();
+  private changes: AiderChange[] = [];
+  private changeCallbacks: ((fsPaths: string[]) => void)[] = [];
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly sessionManager: SessionManager,
+    private readonly review: EditReviewService
+  ) {
+    this.sessionManager.onSessionsChanged(() => this.syncWatchers());
+    this.review.onTurnReady(turn => {
+      this.recordTurn(turn).catch(error => handleError(error, 'change_tracker_record'));
+    });
+    // Accepted, reverted or dismissed edits are no longer Aider's to show
+    this.review.onChanged(() => this.dropSettledChanges());
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(event => this.handleDocumentChange(event))
+    );
+    this.syncWatchers();
+  }
+
+  getChanges(fsPath: string): AiderChange[] {
+    return this.changes.filter(change => change.fsPath === fsPath);
+  }
+
+  /**
+   * Receives the paths whose changes were added, moved or cleared
+   */
+  onChanged(callback: (fsPaths: string[]) => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  dispose(): void {
+    this.watches.forEach(watch => watch.watcher.dispose());
+    this.watches.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.changes = [];
+    this.changeCallbacks = [];
+  }
+
+  /**
+   * Keep one watcher per session whose Aider process is running
+   */
+  private syncWatchers(): void {
+    const running = new Set(
+      this.sessionManager
+        .getSessions()
+        .filter(session => session.process.isRunning)
+        .map(session => session.id)
+    );
+
+    this.watches.forEach((watch, sessionId) => {
+      if (!running.has(sessionId)) {
+        watch.watcher.dispose();
+        this.watches.delete(sessionId);
+      }
+    });
+
+    this.sessionManager.getSessions().forEach(session => {
+      if (!running.has(session.id) || this.watches.has(session.id)) {
+        return;
+      }
+
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(session.workspaceFolder, '**/*'),
+        false,
+        false,
+        true
+      );
+      const watch: SessionWatch = { watcher, changed: new Set() };
+      const record = (uri: vscode.Uri): void => {
+        // Only writes made while Aider is answering count as Aider's
+        if (this.review.hasOpenTurn(session.id) && !isGitPath(uri.fsPath)) {
+          watch.changed.add(uri.fsPath);
+        }
+      };
+      watcher.onDidCreate(record);
+      watcher.onDidChange(record);
+      this.watches.set(session.id, watch);
+    });
+  }
+
+  /**
+   * Diff the turn's edited files, plus any others written during it, against their old content
+   */
+  private async recordTurn(turn: EditTurn): Promise<void> {
+    const watch = this.watches.get(turn.sessionId);
+    const written = watch ? Array.from(watch.changed) : [];
+    watch?.changed.clear();
+
+    const fsPaths = new Set([
+      ...turn.files.map(file => path.resolve(turn.workspaceFolder, file.path)),
+      ...written
+    ]);
+
+    const recorded: string[] = [];
+    for (const fsPath of fsPaths) {
+      let current: string;
+      try {
+        current = await fs.promises.readFile(fsPath, 'utf8');
+      } catch {
+        continue;
+      }
+
+      const file = {
+        path: path.relative(turn.workspaceFolder, fsPath),
+        status: 'pending' as const
+      };
+      const original = await this.review.getOriginalContent(turn, file).catch(() => null);
+      const ranges = changedLineRanges(original, current);
+      if (ranges.length === 0) {
+        continue;
+      }
+
+      this.changes.push({
+        turnId: turn.id,
+        sessionId: turn.sessionId,
+        fsPath,
+        message: turn.message,
+        changedAt: new Date(),
+        ranges
+      });
+      recorded.push(fsPath);
+    }
+
+    if (recorded.length > 0) {
+      this.notifyChanged(recorded);
+    }
+  }
+
+  private dropSettledChanges(): void {
+    const pendingTurns = this.review.pendingTurns;
+    const dropped: string[] = [];
+
+    this.changes = this.changes.filter(change => {
+      const turn = pendingTurns.find(candidate => candidate.id === change.turnId);
+      const file = turn?.files.find(
+        candidate => path.resolve(turn.workspaceFolder, candidate.path) === change.fsPath
+      );
+      const settled = !turn || (file !== undefined && file.status !== 'pending');
+      if (settled) {
+        dropped.push(change.fsPath);
+      }
+      return !settled;
+    });
+
+    if (dropped.length > 0) {
+      this.notifyChanged(dropped);
+    }
+  }
+
+  /**
+   * Clear ranges the user edits and move the ones below the edit
+   */
+  private handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+    // Reloads after Aider writes the file leave the document clean; typing makes it dirty
+    if (!event.document.isDirty || event.contentChanges.length === 0) {
+      return;
+    }
+
+    const fsPath = event.document.uri.fsPath;
+    const changes = this.getChanges(fsPath);
+    if (changes.length === 0) {
+      return;
+    }
+
+    event.contentChanges.forEach(contentChange => {
+      const startLine = contentChange.range.start.line;
+      const endLine = contentChange.range.end.line;
+      const delta = contentChange.text.split('\n').length - 1 - (endLine - startLine);
+
+      changes.forEach(change => {
+        change.ranges = change.ranges
+          .filter(range => range.end < startLine || range.start > endLine)
+          .map(range =>
+            range.start > endLine ? { start: range.start + delta, end: range.end + delta } : range
+          );
+      });
+    });
+
+    this.changes = this.changes.filter(change => change.ranges.length > 0);
+    this.notifyChanged([fsPath]);
+  }
+
+  private notifyChanged(fsPaths: string[]): void {
+    this.changeCallbacks.forEach(cb => {
+      try {
+        cb(fsPaths);
+      } catch (error) {
+        handleError(error, 'change_tracker_callback');
+      }
+    });
+  }
+}
+
+function isGitPath(fsPath: string): boolean {
+  return fsPath.split(/[\\/]/).includes('.git');
+}
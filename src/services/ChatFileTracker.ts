@@ -0,0 +1,183 @@
+/**
+ * ChatFileTracker service - follows which files are in an Aider chat
+ * Derives editable and read-only file sets from Aider's own output
+ */
+
+import { AiderOutputEvent } from '../types';
+import { handleError } from '../utils/errorHandler';
+
+type ListingSection = 'other' | 'readOnly' | 'editable';
+
+// Section headers printed by /ls; their files follow as indented lines
+const LISTING_SECTIONS: Record<string, ListingSection> = {
+  'Repo files not in the chat:': 'other',
+  'Read-only files:': 'readOnly',
+  'Files in chat:': 'editable'
+};
+
+export class ChatFileTracker {
+  private readonly editableFiles = new Set<string>();
+  private readonly readOnlyFiles = new Set<string>();
+  private listing: {
+    section: ListingSection;
+    editable: Set<string>;
+    readOnly: Set<string>;
+  } | null = null;
+  private changeCallbacks: (() => void)[] = [];
+
+  get editable(): string[] {
+    return Array.from(this.editableFiles);
+  }
+
+  get readOnly(): string[] {
+    return Array.from(this.readOnlyFiles);
+  }
+
+  /**
+   * Match parsed output lines against Aider's file notices
+   */
+  processEvent(event: AiderOutputEvent): void {
+    if (event.type === 'prompt') {
+      this.finishListing();
+      return;
+    }
+
+    if (event.type !== 'info' && event.type !== 'assistant') {
+      return;
+    }
+
+    if (this.processListingLine(event.text)) {
+      return;
+    }
+
+    if (this.processLine(event.text.trim())) {
+      this.notifyChanged();
+    }
+  }
+
+  clear(): void {
+    this.listing = null;
+    this.editableFiles.clear();
+    this.readOnlyFiles.clear();
+    this.notifyChanged();
+  }
+
+  onChanged(callback: () => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  dispose(): void {
+    this.changeCallbacks = [];
+  }
+
+  private processLine(line: string): boolean {
+    let match: RegExpMatchArray | null;
+
+    if ((match = line.match(/^Added (.+) to read-only files\.?$/))) {
+      return this.move(match[1], this.readOnlyFiles, this.editableFiles);
+    }
+
+    if ((match = line.match(/^Added (.+) to the chat\.?$/))) {
+      return this.move(match[1], this.editableFiles, this.readOnlyFiles);
+    }
+
+    if ((match = line.match(/^Moved (.+) from editable to read-only files in the chat\.?$/))) {
+      return this.move(match[1], this.readOnlyFiles, this.editableFiles);
+    }
+
+    if ((match = line.match(/^Moved (.+) from read-only to editable files in the chat\.?$/))) {
+      return this.move(match[1], this.editableFiles, this.readOnlyFiles);
+    }
+
+    if ((match = line.match(/^Removed (?:read-only file )?(.+) from the chat\.?$/))) {
+      const file = match[1];
+      const removed = this.editableFiles.delete(file);
+      return this.readOnlyFiles.delete(file) || removed;
+    }
+
+    if (/^Dropping all files from the chat session/.test(line)) {
+      const hadFiles = this.editableFiles.size > 0 || this.readOnlyFiles.size > 0;
+      this.editableFiles.clear();
+      this.readOnlyFiles.clear();
+      return hadFiles;
+    }
+
+    return false;
+  }
+
+  /**
+   * Collect /ls output; returns true when the line belonged to the listing
+   */
+  private processListingLine(text: string): boolean {
+    const section = LISTING_SECTIONS[text.trim()];
+    if (section) {
+      this.listing = this.listing || { section, editable: new Set(), readOnly: new Set() };
+      this.listing.section = section;
+      return true;
+    }
+
+    if (!this.listing) {
+      return false;
+    }
+
+    if (/^\s/.test(text)) {
+      const file = text.trim();
+      if (this.listing.section === 'editable') {
+        this.listing.editable.add(file);
+      } else if (this.listing.section === 'readOnly') {
+        this.listing.readOnly.add(file);
+      }
+      return true;
+    }
+
+    this.finishListing();
+    return false;
+  }
+
+  /**
+   * A complete /ls listing is authoritative: replace both sets with it
+   */
+  private finishListing(): void {
+    const listing = this.listing;
+    if (!listing) {
+      return;
+    }
+    this.listing = null;
+
+    const changed =
+      !sameFiles(this.editableFiles, listing.editable) ||
+      !sameFiles(this.readOnlyFiles, listing.readOnly);
+    if (!changed) {
+      return;
+    }
+
+    this.editableFiles.clear();
+    listing.editable.forEach(file => this.editableFiles.add(file));
+    this.readOnlyFiles.clear();
+    listing.readOnly.forEach(file => this.readOnlyFiles.add(file));
+    this.notifyChanged();
+  }
+
+  private move(file: string, target: Set<string>, other: Set<string>): boolean {
+    const removed = other.delete(file);
+    if (target.has(file)) {
+      return removed;
+    }
+    target.add(file);
+    return true;
+  }
+
+  private notifyChanged(): void {
+    this.changeCallbacks.forEach(cb => {
+      try {
+        cb();
+      } catch (error) {
+        handleError(error, 'chat_files_callback');
+      }
+    });
+  }
+}
+
+function sameFiles(a: Set<string>, b: Set<string>): boolean {
+  return a.size === b.size && Array.from(a).every(file => b.has(file));
+}
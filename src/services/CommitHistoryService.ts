@@ -0,0 +1,208 @@
+/**
+ * CommitHistoryService - lists the commits Aider made in each session
+ * Takes the commits a session announced in Aider's output from git log, and undoes or squashes them
+ */
+
+import { AiderCommit, AiderSession } from '../types';
+import { SessionManager } from './SessionManager';
+import { handleError } from '../utils/errorHandler';
+import { runGit } from '../utils/git';
+
+const FIELD_SEPARATOR = '\x1f';
+
+export class CommitHistoryService {
+  // Short hashes from "Commit <hash> <message>" notices, per session
+  private readonly announcedHashes = new Map<string, Set<string>>();
+  private readonly commits = new Map<string, AiderCommit[]>();
+  private changeCallbacks: ((sessionId: string) => void)[] = [];
+
+  constructor(private readonly sessionManager: SessionManager) {
+    this.sessionManager.onSessionOutput((session, event) => {
+      if (event.type === 'commit') {
+        this.getAnnounced(session.id).add(event.hash);
+      }
+      // Commits, /undo and /commit all finish before Aider prompts again
+      if (event.type === 'prompt') {
+        this.refresh(session);
+      }
+    });
+    this.sessionManager.onSessionsChanged(() => this.forgetClosedSessions());
+  }
+
+  /**
+   * Commits of a session, newest first
+   */
+  getCommits(sessionId: string): AiderCommit[] {
+    return this.commits.get(sessionId) || [];
+  }
+
+  /**
+   * Reload a session's commits from git log
+   */
+  async refresh(session: AiderSession): Promise<void> {
+    let log: string;
+    try {
+      log = await runGit(session.workspaceFolder, [
+        'log',
+        '--no-merges',
+        `--since=${session.createdAt.toISOString()}`,
+        `--format=%H${FIELD_SEPARATOR}%h${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%ct${FIELD_SEPARATOR}%s`
+      ]);
+    } catch (error) {
+      console.log(`📜 No git history for ${session.id}: ${error}`);
+      log = '';
+    }
+
+    // Other sessions in the same repo commit as "(aider)" too; only this session's notices count
+    const announced = Array.from(this.getAnnounced(session.id));
+    const commits = log
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => line.split(FIELD_SEPARATOR))
+      .filter(([hash]) => announced.some(short => hash.startsWith(short)))
+      .map(([hash, shortHash, author, time, message]) => ({
+        hash,
+        shortHash,
+        message,
+        author,
+        committedAt: new Date(Number(time) * 1000),
+        sessionId: session.id,
+        workspaceFolder: session.workspaceFolder
+      }));
+
+    this.commits.set(session.id, commits);
+    this.notifyChanged(session.id);
+  }
+
+  /**
+   * Whether the commit is HEAD, so Aider's /undo can take it back
+   */
+  async isLatest(commit: AiderCommit): Promise<boolean> {
+    const head = await runGit(commit.workspaceFolder, ['rev-parse', 'HEAD']);
+    return head.trim() === commit.hash;
+  }
+
+  /**
+   * Files the commit touched, relative to the session folder
+   */
+  async getChangedFiles(commit: AiderCommit): Promise<string[]> {
+    const output = await runGit(commit.workspaceFolder, [
+      'show',
+      '--relative',
+      '--name-only',
+      '--format=',
+      commit.hash
+    ]);
+    return output.split('\n').filter(line => line.trim());
+  }
+
+  /**
+   * Undo an older commit with a new revert commit
+   */
+  async revert(commit: AiderCommit): Promise<void> {
+    try {
+      await runGit(commit.workspaceFolder, ['revert', '--no-edit', commit.hash]);
+    } catch (error) {
+      // Leave the tree as it was rather than half-reverted with conflict markers
+      await runGit(commit.workspaceFolder, ['revert', '--abort']).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace all of a session's commits with one
+   * Only possible while they are the newest commits, with nothing else in between
+   */
+  async squash(session: AiderSession): Promise<AiderCommit[]> {
+    const commits = this.getCommits(session.id);
+    if (commits.length < 2) {
+      throw new Error('There are fewer than two Aider commits to squash.');
+    }
+
+    const cwd = session.workspaceFolder;
+    const oldest = commits[commits.length - 1];
+    try {
+      await runGit(cwd, ['rev-parse', '--verify', '--quiet', `${oldest.hash}~1`]);
+    } catch {
+      throw new Error(
+        'The oldest Aider commit is the root commit of the repository; squash them manually.'
+      );
+    }
+    const between = (await runGit(cwd, ['rev-list', `${oldest.hash}~1..HEAD`]))
+      .split('\n')
+      .filter(line => line.trim());
+    const ownHashes = new Set(commits.map(commit => commit.hash));
+    if (between.length !== commits.length || between.some(hash => !ownHashes.has(hash))) {
+      throw new Error('Other commits are mixed in with the Aider commits; squash them manually.');
+    }
+
+    try {
+      await runGit(cwd, ['diff', '--cached', '--quiet']);
+    } catch {
+      throw new Error('There are staged changes; commit or unstage them first.');
+    }
+
+    const message = [
+      `aider: ${commits.length} commits from ${session.name}`,
+      '',
+      ...commits
+        .slice()
+        .reverse()
+        .map(commit => `- ${commit.message}`)
+    ].join('\n');
+    const head = (await runGit(cwd, ['rev-parse', 'HEAD'])).trim();
+    await runGit(cwd, ['reset', '--soft', `${oldest.hash}~1`]);
+    try {
+      await runGit(cwd, ['commit', '--quiet', '-m', message]);
+    } catch (error) {
+      // E.g. a pre-commit hook refused it; put the commits back on the branch
+      await runGit(cwd, ['reset', '--soft', head]).catch(() => undefined);
+      throw error;
+    }
+
+    // The squashed commit is the user's, not an Aider one
+    this.getAnnounced(session.id).clear();
+    await this.refresh(session);
+    return commits;
+  }
+
+  onChanged(callback: (sessionId: string) => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  dispose(): void {
+    this.announcedHashes.clear();
+    this.commits.clear();
+    this.changeCallbacks = [];
+  }
+
+  private forgetClosedSessions(): void {
+    const open = new Set(this.sessionManager.getSessions().map(session => session.id));
+    Array.from(this.commits.keys())
+      .concat(Array.from(this.announcedHashes.keys()))
+      .filter(sessionId => !open.has(sessionId))
+      .forEach(sessionId => {
+        this.commits.delete(sessionId);
+        this.announcedHashes.delete(sessionId);
+      });
+  }
+
+  private getAnnounced(sessionId: string): Set<string> {
+    let announced = this.announcedHashes.get(sessionId);
+    if (!announced) {
+      announced = new Set();
+      this.announcedHashes.set(sessionId, announced);
+    }
+    return announced;
+  }
+
+  private notifyChanged(sessionId: string): void {
+    this.changeCallbacks.forEach(cb => {
+      try {
+        cb(sessionId);
+      } catch (error) {
+        handleError(error, 'commit_history_callback');
+      }
+    });
+  }
+}
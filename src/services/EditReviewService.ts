@@ -0,0 +1,349 @@
+/**
+ * EditReviewService - groups Aider's edits into turns for review
+ * Snapshots the chat files before each message so edits can be diffed and reverted
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AiderOutputEvent, AiderSession, EditReviewFile, EditTurn } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { handleError } from '../utils/errorHandler';
+import { runGit, showFileAtRevision } from '../utils/git';
+
+// Content of each snapshotted file; null when the file did not exist yet
+type TurnSnapshots = Map<string, string | null>;
+
+interface TurnWaiter {
+  sessionId: string;
+  timer: NodeJS.Timeout;
+  resolve: (turn: EditTurn) => void;
+  reject: (error: Error) => void;
+}
+
+export class EditReviewService {
+  // Turn per session that is still waiting for Aider's answer
+  private readonly openTurns = new Map<string, EditTurn>();
+  private readonly snapshots = new Map<string, TurnSnapshots>();
+  // Callers waiting for a reserved turn to finish, by turn id
+  private readonly waiters = new Map<string, TurnWaiter>();
+  private turns: EditTurn[] = [];
+  private turnCounter = 0;
+  private turnReadyCallbacks: ((turn: EditTurn) => void)[] = [];
+  private turnClosedCallbacks: ((turn: EditTurn) => void)[] = [];
+  private changeCallbacks: (() => void)[] = [];
+
+  /**
+   * Turns with at least one file still pending, oldest first
+   */
+  get pendingTurns(): EditTurn[] {
+    return this.turns.slice();
+  }
+
+  /**
+   * Whether a message was sent to the session and Aider has not answered yet
+   */
+  hasOpenTurn(sessionId: string): boolean {
+    return this.openTurns.has(sessionId);
+  }
+
+  /**
+   * Id for the turn of an inline edit, passed to beginTurn once its message is sent
+   */
+  reserveInlineTurn(): string {
+    this.turnCounter++;
+    return `turn-${this.turnCounter}`;
+  }
+
+  /**
+   * Resolve when the reserved turn finishes; rejects when its session exits first,
+   * it is abandoned or it takes longer than INLINE_EDIT.TIMEOUT_MS
+   */
+  waitForTurn(sessionId: string, turnId: string): Promise<EditTurn> {
+    return new Promise((resolve, reject) => {
+      const timeoutMs = EXTENSION_CONFIG.INLINE_EDIT.TIMEOUT_MS;
+      const timer = setTimeout(
+        () =>
+          this.takeWaiter(turnId)?.reject(
+            new Error(`Aider did not finish within ${timeoutMs / 60000} minutes`)
+          ),
+        timeoutMs
+      );
+      this.waiters.set(turnId, { sessionId, timer, resolve, reject });
+    });
+  }
+
+  /**
+   * Give up on a reserved turn whose message will not be sent, e.g. canceled in the queue
+   */
+  abandonTurn(turnId: string, reason: string): void {
+    this.takeWaiter(turnId)?.reject(new Error(reason));
+  }
+
+  /**
+   * Snapshot the session's editable chat files before a message is sent
+   * @param inlineTurnId Id from reserveInlineTurn when the message is an inline edit
+   */
+  beginTurn(session: AiderSession, message: string, inlineTurnId?: string): void {
+    if (!inlineTurnId) {
+      this.turnCounter++;
+    }
+    const turn: EditTurn = {
+      id: inlineTurnId || `turn-${this.turnCounter}`,
+      sessionId: session.id,
+      workspaceFolder: session.workspaceFolder,
+      message,
+      origin: inlineTurnId ? 'inline' : 'chat',
+      startedAt: new Date(),
+      files: []
+    };
+
+    const snapshots: TurnSnapshots = new Map();
+    session.chatFiles.editable.forEach(file => {
+      snapshots.set(file, readFileOrNull(path.resolve(session.workspaceFolder, file)));
+    });
+
+    const previous = this.openTurns.get(session.id);
+    if (previous) {
+      this.closeTurn(previous);
+    }
+    this.openTurns.set(session.id, turn);
+    this.snapshots.set(turn.id, snapshots);
+  }
+
+  /**
+   * Collect edits and commits; the turn is ready for review when Aider is back at its prompt
+   */
+  processEvent(session: AiderSession, event: AiderOutputEvent): void {
+    const turn = this.openTurns.get(session.id);
+    if (!turn) {
+      return;
+    }
+
+    if (event.type === 'appliedEdit') {
+      if (!turn.files.some(file => file.path === event.file)) {
+        turn.files.push({ path: event.file, status: 'pending' });
+      }
+      return;
+    }
+
+    if (event.type === 'commit') {
+      turn.commitHash = event.hash;
+      return;
+    }
+
+    if (event.type === 'prompt') {
+      this.closeTurn(turn);
+    }
+  }
+
+  /**
+   * Content of a file before the turn, or null if it did not exist
+   */
+  async getOriginalContent(turn: EditTurn, file: EditReviewFile): Promise<string | null> {
+    const snapshot = this.snapshots.get(turn.id);
+    if (snapshot?.has(file.path)) {
+      return snapshot.get(file.path) ?? null;
+    }
+
+    if (turn.commitHash) {
+      return showFileAtRevision(turn.workspaceFolder, `${turn.commitHash}~1`, file.path);
+    }
+
+    // Not in the chat when the turn began and not committed: the last commit is the best guess
+    try {
+      await runGit(turn.workspaceFolder, ['rev-parse', '--verify', '--quiet', 'HEAD']);
+    } catch {
+      throw new Error(`No snapshot of ${file.path} was taken before Aider edited it`);
+    }
+    return showFileAtRevision(turn.workspaceFolder, 'HEAD', file.path);
+  }
+
+  /**
+   * Keep Aider's edits to one file, or to the whole turn
+   */
+  accept(turn: EditTurn, file?: EditReviewFile): void {
+    this.targetFiles(turn, file).forEach(target => (target.status = 'accepted'));
+    this.settle(turn);
+  }
+
+  /**
+   * Undo Aider's edits to one file, or to the whole turn
+   * Auto-committed edits are restored from the commit's parent, others from the snapshot
+   */
+  async revert(turn: EditTurn, file?: EditReviewFile): Promise<void> {
+    try {
+      for (const target of this.targetFiles(turn, file)) {
+        await this.revertFile(turn, target);
+        target.status = 'reverted';
+      }
+    } finally {
+      this.settle(turn);
+    }
+  }
+
+  /**
+   * Find the pending review entry for an absolute file path
+   */
+  findPendingFile(fsPath: string): { turn: EditTurn; file: EditReviewFile } | undefined {
+    for (let i = this.turns.length - 1; i >= 0; i--) {
+      const turn = this.turns[i];
+      const file = turn.files.find(
+        candidate =>
+          candidate.status === 'pending' &&
+          path.resolve(turn.workspaceFolder, candidate.path) === fsPath
+      );
+      if (file) {
+        return { turn, file };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Close the turn Aider will no longer answer because its process exited,
+   * so the edits it made so far can still be reviewed
+   */
+  endSession(sessionId: string): void {
+    const turn = this.openTurns.get(sessionId);
+    if (turn) {
+      this.closeTurn(turn);
+    }
+    this.rejectWaiters(sessionId, 'Aider exited before it finished the edit');
+  }
+
+  /**
+   * Forget a session's turns, e.g. when its tab is closed
+   */
+  clearSession(sessionId: string): void {
+    this.openTurns.delete(sessionId);
+    this.rejectWaiters(sessionId, 'The Aider session was closed');
+    this.turns
+      .filter(turn => turn.sessionId === sessionId)
+      .forEach(turn => this.snapshots.delete(turn.id));
+    this.turns = this.turns.filter(turn => turn.sessionId !== sessionId);
+    this.notifyChanged();
+  }
+
+  onTurnReady(callback: (turn: EditTurn) => void): void {
+    this.turnReadyCallbacks.push(callback);
+  }
+
+  /**
+   * Every finished turn, including those without edits
+   */
+  onTurnClosed(callback: (turn: EditTurn) => void): void {
+    this.turnClosedCallbacks.push(callback);
+  }
+
+  onChanged(callback: () => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  dispose(): void {
+    Array.from(this.waiters.values()).forEach(waiter => clearTimeout(waiter.timer));
+    this.waiters.clear();
+    this.openTurns.clear();
+    this.snapshots.clear();
+    this.turns = [];
+    this.turnReadyCallbacks = [];
+    this.turnClosedCallbacks = [];
+    this.changeCallbacks = [];
+  }
+
+  private closeTurn(turn: EditTurn): void {
+    this.openTurns.delete(turn.sessionId);
+    if (turn.files.length === 0) {
+      this.snapshots.delete(turn.id);
+    } else {
+      console.log(`📝 Aider edited ${turn.files.length} file(s) in ${turn.id}`);
+      this.turns.push(turn);
+      this.notifyChanged();
+      this.notifyTurn(this.turnReadyCallbacks, turn);
+    }
+    this.notifyTurn(this.turnClosedCallbacks, turn);
+    this.takeWaiter(turn.id)?.resolve(turn);
+  }
+
+  private takeWaiter(turnId: string): TurnWaiter | undefined {
+    const waiter = this.waiters.get(turnId);
+    if (waiter) {
+      this.waiters.delete(turnId);
+      clearTimeout(waiter.timer);
+    }
+    return waiter;
+  }
+
+  private rejectWaiters(sessionId: string, reason: string): void {
+    Array.from(this.waiters.entries())
+      .filter(([, waiter]) => waiter.sessionId === sessionId)
+      .forEach(([turnId]) => this.abandonTurn(turnId, reason));
+  }
+
+  private notifyTurn(callbacks: ((turn: EditTurn) => void)[], turn: EditTurn): void {
+    callbacks.forEach(cb => {
+      try {
+        cb(turn);
+      } catch (error) {
+        handleError(error, 'edit_review_callback');
+      }
+    });
+  }
+
+  private async revertFile(turn: EditTurn, file: EditReviewFile): Promise<void> {
+    const fsPath = path.resolve(turn.workspaceFolder, file.path);
+
+    if (turn.commitHash) {
+      const original = await showFileAtRevision(
+        turn.workspaceFolder,
+        `${turn.commitHash}~1`,
+        file.path
+      );
+      if (original === null) {
+        await runGit(turn.workspaceFolder, ['rm', '--quiet', '--force', '--', file.path]);
+      } else {
+        await runGit(turn.workspaceFolder, ['checkout', `${turn.commitHash}~1`, '--', file.path]);
+      }
+      return;
+    }
+
+    const original = await this.getOriginalContent(turn, file);
+    if (original === null) {
+      await fs.promises.unlink(fsPath);
+    } else {
+      await fs.promises.writeFile(fsPath, original);
+    }
+  }
+
+  private targetFiles(turn: EditTurn, file?: EditReviewFile): EditReviewFile[] {
+    return file ? [file] : turn.files.filter(candidate => candidate.status === 'pending');
+  }
+
+  /**
+   * Drop turns once every file has been accepted or reverted
+   */
+  private settle(turn: EditTurn): void {
+    if (turn.files.every(file => file.status !== 'pending')) {
+      this.turns = this.turns.filter(candidate => candidate !== turn);
+      this.snapshots.delete(turn.id);
+    }
+    this.notifyChanged();
+  }
+
+  private notifyChanged(): void {
+    this.changeCallbacks.forEach(cb => {
+      try {
+        cb();
+      } catch (error) {
+        handleError(error, 'edit_review_callback');
+      }
+    });
+  }
+}
+
+function readFileOrNull(fsPath: string): string | null {
+  try {
+    return fs.readFileSync(fsPath, 'utf8');
+  } catch {
+    return null;
+  }
+}
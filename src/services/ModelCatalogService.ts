@@ -0,0 +1,191 @@
+/**
+ * ModelCatalogService - the one list of models the extension offers
+ * Merges the aider.models setting, .aider.conf.yml and discovered models, in that order
+ */
+
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { CatalogModel, ModelConfig } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { handleError } from '../utils/errorHandler';
+import { loadAiderConfig } from '../utils/aiderConfig';
+
+// Entries of the aider.models setting: a model id, or an id with a display name
+type ModelSetting = string | { id?: string; displayName?: string };
+
+export class ModelCatalogService {
+  // Models found at runtime, per discovery source (e.g. "ollama")
+  private readonly discovered = new Map<string, ModelConfig[]>();
+  private changeCallbacks: (() => void)[] = [];
+  private readonly configListener: vscode.Disposable;
+
+  constructor() {
+    this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+      if (
+        event.affectsConfiguration('aider.models') ||
+        event.affectsConfiguration('aider.defaultModel')
+      ) {
+        this.notifyChanged();
+      }
+    });
+  }
+
+  /**
+   * All models, first source wins for duplicate ids
+   * Falls back to the built-in list when no source names any model
+   */
+  getModels(): CatalogModel[] {
+    const aiderConfig = readAiderConfig();
+    const candidates: CatalogModel[] = [
+      ...this.readSettingModels(),
+      ...readExtraModels(aiderConfig),
+      ...Array.from(this.discovered.values())
+        .flat()
+        .map(model => ({ ...model, source: 'discovered' as const }))
+    ];
+    if (candidates.length === 0) {
+      candidates.push(
+        ...EXTENSION_CONFIG.AVAILABLE_MODELS.map(model => ({
+          ...model,
+          source: 'builtin' as const
+        }))
+      );
+    }
+
+    // The default is always offered, even when only named by aider.defaultModel
+    const defaultModel = this.resolveDefaultModel();
+    if (!candidates.some(model => model.id === defaultModel.id)) {
+      candidates.unshift(defaultModel);
+    }
+
+    const seen = new Set<string>();
+    return candidates.filter(model => {
+      if (seen.has(model.id)) {
+        return false;
+      }
+      seen.add(model.id);
+      return true;
+    });
+  }
+
+  /**
+   * Models named in settings or .aider.conf.yml, leaving out discovered and built-in ones
+   */
+  getConfiguredModels(): CatalogModel[] {
+    const defaultModel = this.resolveDefaultModel();
+    return [
+      ...(defaultModel.source === 'builtin' ? [] : [defaultModel]),
+      ...this.readSettingModels(),
+      ...readExtraModels(readAiderConfig())
+    ].filter((model, index, models) => models.findIndex(other => other.id === model.id) === index);
+  }
+
+  /**
+   * Model for new sessions: aider.defaultModel, then the Aider config's model, then the built-in one
+   */
+  getDefaultModel(): string {
+    return this.resolveDefaultModel().id;
+  }
+
+  /**
+   * Replace the models one discovery source found
+   */
+  setDiscoveredModels(source: string, models: ModelConfig[]): void {
+    this.discovered.set(source, models);
+    this.notifyChanged();
+  }
+
+  onChanged(callback: () => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  dispose(): void {
+    this.configListener.dispose();
+    this.discovered.clear();
+    this.changeCallbacks = [];
+  }
+
+  private resolveDefaultModel(): CatalogModel {
+    const setting = vscode.workspace
+      .getConfiguration('aider')
+      .get<string>('defaultModel', '')
+      .trim();
+    const configured = readAiderConfig()['model'];
+    if (setting) {
+      return { id: setting, displayName: formatModelDisplayName(setting, {}), source: 'settings' };
+    }
+    if (typeof configured === 'string' && configured.trim()) {
+      const id = configured.trim();
+      return { id, displayName: formatModelDisplayName(id, {}), source: 'aiderConfig' };
+    }
+    const builtin = EXTENSION_CONFIG.AVAILABLE_MODELS.find(
+      model => model.id === EXTENSION_CONFIG.DEFAULT_MODEL
+    );
+    return {
+      id: EXTENSION_CONFIG.DEFAULT_MODEL,
+      displayName: builtin?.displayName || EXTENSION_CONFIG.DEFAULT_MODEL,
+      source: 'builtin'
+    };
+  }
+
+  private readSettingModels(): CatalogModel[] {
+    const entries = vscode.workspace.getConfiguration('aider').get<ModelSetting[]>('models', []);
+    return entries
+      .map(entry => (typeof entry === 'string' ? { id: entry } : entry))
+      .filter((entry): entry is { id: string; displayName?: string } => Boolean(entry?.id?.trim()))
+      .map(entry => ({
+        id: entry.id.trim(),
+        displayName: entry.displayName || formatModelDisplayName(entry.id.trim(), {}),
+        source: 'settings' as const
+      }));
+  }
+
+  private notifyChanged(): void {
+    this.changeCallbacks.forEach(cb => {
+      try {
+        cb();
+      } catch (error) {
+        handleError(error, 'model_catalog_callback');
+      }
+    });
+  }
+}
+
+/**
+ * Effective .aider.conf.yml options for the first workspace folder
+ */
+function readAiderConfig(): Record<string, unknown> {
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || os.homedir();
+  return Object.fromEntries(loadAiderConfig(folder).options.map(entry => [entry.key, entry.value]));
+}
+
+/**
+ * Models listed under vscode-extra-models in the Aider config
+ */
+function readExtraModels(config: Record<string, unknown>): CatalogModel[] {
+  const extraModels = (config['vscode-extra-models'] || {}) as Record<
+    string,
+    Record<string, unknown> | null
+  >;
+  return Object.entries(extraModels).map(([modelId, modelConfig]) => ({
+    id: modelId,
+    displayName: formatModelDisplayName(modelId, modelConfig || {}),
+    source: 'aiderConfig' as const
+  }));
+}
+
+/**
+ * Format model display name with edit format suffix
+ */
+function formatModelDisplayName(modelId: string, modelConfig: Record<string, unknown>): string {
+  const editFormat = modelConfig['edit-format'] || 'diff';
+  const formatSuffix = editFormat === 'udiff' ? ' (udiff)' : '';
+
+  // Convert model ID to display name
+  const displayName = modelId
+    .replace(/^[^/]+\//, '') // remove provider prefix (e.g. "openai/")
+    .replace(/-/g, ' ') // replace dashes with spaces
+    .replace(/\b\w/g, (l: string) => l.toUpperCase()); // capitalize first letter of each word
+
+  return `${displayName}${formatSuffix}`;
+}
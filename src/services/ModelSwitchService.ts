@@ -0,0 +1,110 @@
+/**
+ * ModelSwitchService - follows Aider's /model to confirm the switch took effect
+ * Aider announces the new model ("Main model: ... with ... edit format") before prompting again
+ */
+
+import { EXTENSION_CONFIG } from '../config/constants';
+import { ModelSwitchResult } from '../types';
+import { SessionManager } from './SessionManager';
+
+interface PendingModelSwitch {
+  model: string;
+  started: boolean;
+  announced?: string;
+  timer: NodeJS.Timeout;
+  resolve: (result: ModelSwitchResult) => void;
+}
+
+export class ModelSwitchService {
+  private readonly switches = new Map<string, PendingModelSwitch>();
+
+  constructor(private readonly sessionManager: SessionManager) {
+    this.sessionManager.onSessionOutput((session, event) => {
+      const pending = this.switches.get(session.id);
+      if (!pending) {
+        return;
+      }
+
+      // The echoed "/model ..." line marks the start; earlier prompts belong to queued messages
+      if (event.type === 'input') {
+        if (!pending.started && event.text.trim().startsWith('/model')) {
+          pending.started = true;
+          // Once sent, Aider answers quickly; restart the timer with the shorter limit
+          clearTimeout(pending.timer);
+          pending.timer = this.startTimer(session.id, EXTENSION_CONFIG.MODEL_SWITCH.TIMEOUT_MS);
+        }
+        return;
+      }
+      if (!pending.started) {
+        return;
+      }
+
+      if (event.type === 'model') {
+        pending.announced = event.model;
+      } else if (event.type === 'prompt') {
+        this.finish(
+          session.id,
+          pending.announced
+            ? { type: 'switched', model: pending.announced }
+            : { type: 'unconfirmed' }
+        );
+      }
+    });
+
+    this.sessionManager.onSessionExit(session => this.finish(session.id, { type: 'unconfirmed' }));
+  }
+
+  /**
+   * Resolve with the model Aider announces after the session's next /model, as unconfirmed
+   * when it prompts again without one, times out or exits, or as canceled via cancelSwitch()
+   */
+  waitForSwitch(sessionId: string, model: string): Promise<ModelSwitchResult> {
+    this.finish(sessionId, { type: 'unconfirmed' });
+
+    return new Promise(resolve => {
+      this.switches.set(sessionId, {
+        model,
+        started: false,
+        timer: this.startTimer(sessionId, EXTENSION_CONFIG.MODEL_SWITCH.QUEUED_TIMEOUT_MS),
+        resolve
+      });
+    });
+  }
+
+  /**
+   * Give up on a switch whose /model was canceled before Aider received it
+   */
+  cancelSwitch(sessionId: string): void {
+    if (!this.switches.get(sessionId)?.started) {
+      this.finish(sessionId, { type: 'canceled' });
+    }
+  }
+
+  /**
+   * The model a session is being switched to, if a switch is under way
+   */
+  pendingModel(sessionId: string): string | undefined {
+    return this.switches.get(sessionId)?.model;
+  }
+
+  dispose(): void {
+    Array.from(this.switches.keys()).forEach(sessionId =>
+      this.finish(sessionId, { type: 'canceled' })
+    );
+  }
+
+  private startTimer(sessionId: string, ms: number): NodeJS.Timeout {
+    return setTimeout(() => this.finish(sessionId, { type: 'unconfirmed' }), ms);
+  }
+
+  private finish(sessionId: string, result: ModelSwitchResult): void {
+    const pending = this.switches.get(sessionId);
+    if (!pending) {
+      return;
+    }
+
+    this.switches.delete(sessionId);
+    clearTimeout(pending.timer);
+    pending.resolve(result);
+  }
+}
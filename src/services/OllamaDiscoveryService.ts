@@ -0,0 +1,108 @@
+/**
+ * OllamaDiscoveryService - adds the models installed on the Ollama server to the model catalog
+ * Queries OLLAMA_API_BASE at startup and on demand, and remembers whether it answered
+ * and which models are loaded
+ */
+
+import * as vscode from 'vscode';
+import { OllamaModel } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { ModelCatalogService } from './ModelCatalogService';
+import { handleError } from '../utils/errorHandler';
+import { loadAiderConfig } from '../utils/aiderConfig';
+import {
+  formatModelSize,
+  listOllamaModels,
+  listRunningOllamaModels,
+  resolveOllamaApiBase
+} from '../utils/ollama';
+
+// Key of the discovered models in the catalog
+const DISCOVERY_SOURCE = 'ollama';
+
+export class OllamaDiscoveryService {
+  private installed: OllamaModel[] = [];
+  private running = new Set<string>();
+  private lastError?: Error;
+  private changeCallbacks: (() => void)[] = [];
+
+  constructor(private readonly catalog: ModelCatalogService) {}
+
+  /**
+   * The endpoint Aider uses in the first workspace folder, including its .env files
+   */
+  get apiBase(): string {
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    return resolveOllamaApiBase(folder ? loadAiderConfig(folder) : undefined);
+  }
+
+  get models(): OllamaModel[] {
+    return this.installed;
+  }
+
+  /**
+   * Whether Ollama has the model loaded in memory
+   */
+  isLoaded(name: string): boolean {
+    return this.running.has(name);
+  }
+
+  /**
+   * Why the last refresh failed, or undefined when the endpoint answered
+   */
+  get error(): Error | undefined {
+    return this.lastError;
+  }
+
+  /**
+   * Reload the installed models; an unreachable endpoint clears them and rejects
+   */
+  async refresh(): Promise<OllamaModel[]> {
+    try {
+      this.installed = await listOllamaModels(this.apiBase);
+      this.lastError = undefined;
+      // Servers without /api/ps still list their models
+      this.running = new Set(await listRunningOllamaModels(this.apiBase).catch(() => []));
+    } catch (error) {
+      this.installed = [];
+      this.running.clear();
+      this.lastError = error instanceof Error ? error : new Error(String(error));
+    }
+
+    this.catalog.setDiscoveredModels(
+      DISCOVERY_SOURCE,
+      this.installed.map(model => ({
+        id: `${EXTENSION_CONFIG.OLLAMA.MODEL_PREFIX}${model.name}`,
+        displayName: `${model.name} (${[formatModelSize(model.size), model.family]
+          .filter(Boolean)
+          .join(', ')})`
+      }))
+    );
+    this.notifyChanged();
+
+    if (this.lastError) {
+      throw this.lastError;
+    }
+    return this.installed;
+  }
+
+  onChanged(callback: () => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  dispose(): void {
+    this.installed = [];
+    this.running.clear();
+    this.changeCallbacks = [];
+  }
+
+  private notifyChanged(): void {
+    this.changeCallbacks.forEach(cb => {
+      try {
+        cb();
+      } catch (error) {
+        handleError(error, 'ollama_discovery_callback');
+      }
+    });
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * OutboundMessageQueue service - holds prompts typed before Aider is ready
+ * Messages are kept per session in send order and can be edited or canceled
+ */
+
+import { QueuedMessage } from '../types';
+import { handleError } from '../utils/errorHandler';
+
+export class OutboundMessageQueue {
+  private readonly queues = new Map<string, QueuedMessage[]>();
+  private messageCounter = 0;
+  private changeCallbacks: ((sessionId: string, messages: QueuedMessage[]) => void)[] = [];
+
+  enqueue(sessionId: string, text: string, turnId?: string): QueuedMessage {
+    this.messageCounter++;
+    const message: QueuedMessage = {
+      id: `queued-${this.messageCounter}`,
+      text,
+      queuedAt: new Date(),
+      turnId
+    };
+
+    this.getQueue(sessionId).push(message);
+    this.notifyChanged(sessionId);
+    return message;
+  }
+
+  /**
+   * Take the oldest message for sending
+   */
+  dequeue(sessionId: string): QueuedMessage | undefined {
+    const message = this.queues.get(sessionId)?.shift();
+    if (message) {
+      this.notifyChanged(sessionId);
+    }
+    return message;
+  }
+
+  update(sessionId: string, messageId: string, text: string): boolean {
+    const message = this.find(sessionId, messageId);
+    if (!message || !text.trim()) {
+      return false;
+    }
+
+    message.text = text;
+    this.notifyChanged(sessionId);
+    return true;
+  }
+
+  cancel(sessionId: string, messageId: string): boolean {
+    const queue = this.queues.get(sessionId);
+    const index = queue ? queue.findIndex(message => message.id === messageId) : -1;
+    if (!queue || index === -1) {
+      return false;
+    }
+
+    queue.splice(index, 1);
+    this.notifyChanged(sessionId);
+    return true;
+  }
+
+  find(sessionId: string, messageId: string): QueuedMessage | undefined {
+    return this.queues.get(sessionId)?.find(message => message.id === messageId);
+  }
+
+  getMessages(sessionId: string): QueuedMessage[] {
+    return [...(this.queues.get(sessionId) || [])];
+  }
+
+  hasMessages(sessionId: string): boolean {
+    return (this.queues.get(sessionId)?.length || 0) > 0;
+  }
+
+  clear(sessionId: string): void {
+    if (this.queues.delete(sessionId)) {
+      this.notifyChanged(sessionId);
+    }
+  }
+
+  onChanged(callback: (sessionId: string, messages: QueuedMessage[]) => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  dispose(): void {
+    this.queues.clear();
+    this.changeCallbacks = [];
+  }
+
+  private getQueue(sessionId: string): QueuedMessage[] {
+    let queue = this.queues.get(sessionId);
+    if (!queue) {
+      queue = [];
+      this.queues.set(sessionId, queue);
+    }
+    return queue;
+  }
+
+  private notifyChanged(sessionId: string): void {
+    const messages = this.getMessages(sessionId);
+    this.changeCallbacks.forEach(cb => {
+      try {
+        cb(sessionId, messages);
+      } catch (error) {
+        handleError(error, 'message_queue_callback');
+      }
+    });
+  }
+}
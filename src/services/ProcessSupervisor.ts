@@ -0,0 +1,236 @@
+/**
+ * ProcessSupervisor service - restarts crashed Aider sessions
+ * Restores model, terminal size and chat files after a non-zero exit
+ */
+
+import * as vscode from 'vscode';
+import { AiderSession, ProcessExitInfo, AiderOutputEvent } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { SessionManager } from './SessionManager';
+import { retryWithBackoff } from '../utils/performance';
+import { handleError } from '../utils/errorHandler';
+import { quotePath } from '../utils/paths';
+
+interface RecoverySnapshot {
+  model: string;
+  cols: number;
+  rows: number;
+  editableFiles: string[];
+  readOnlyFiles: string[];
+}
+
+export class ProcessSupervisor {
+  private readonly recovering = new Set<string>();
+  private readonly exitWaiters = new Map<string, (exitInfo: ProcessExitInfo) => void>();
+  private readonly outputTails = new Map<string, string[]>();
+  private statusCallbacks: ((session: AiderSession, message: string) => void)[] = [];
+
+  constructor(private readonly sessionManager: SessionManager) {
+    this.sessionManager.onSessionOutput((session, event) => this.recordOutput(session, event));
+    this.sessionManager.onSessionExit((session, exitInfo) => this.handleExit(session, exitInfo));
+  }
+
+  onStatus(callback: (session: AiderSession, message: string) => void): void {
+    this.statusCallbacks.push(callback);
+  }
+
+  /**
+   * Restart a session on request, keeping its model, terminal size and chat files
+   */
+  async restartSession(session: AiderSession): Promise<void> {
+    if (this.recovering.has(session.id)) {
+      return;
+    }
+
+    const snapshot = this.takeSnapshot(session);
+    this.notifyStatus(session, 'Restarting Aider and restoring chat files...');
+    await this.sessionManager.stopSession(session.id);
+    await this.restart(session, snapshot);
+    if (session.process.isReady) {
+      this.notifyStatus(session, 'Aider restarted and chat files restored.');
+    }
+  }
+
+  dispose(): void {
+    this.exitWaiters.clear();
+    this.outputTails.clear();
+    this.statusCallbacks = [];
+  }
+
+  private get isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('aider').get<boolean>('autoRestart', true);
+  }
+
+  private handleExit(session: AiderSession, exitInfo: ProcessExitInfo): void {
+    // An exit during the post-restart stability window belongs to the running recovery
+    const waiter = this.exitWaiters.get(session.id);
+    if (waiter) {
+      this.exitWaiters.delete(session.id);
+      waiter(exitInfo);
+      return;
+    }
+
+    if (
+      exitInfo.exitCode === 0 ||
+      session.stopRequested ||
+      this.recovering.has(session.id) ||
+      !this.isEnabled
+    ) {
+      return;
+    }
+
+    this.recover(session, exitInfo).catch(error => handleError(error, 'process_recovery'));
+  }
+
+  private async recover(session: AiderSession, crash: ProcessExitInfo): Promise<void> {
+    const { MAX_RETRIES, BASE_DELAY_MS, MAX_CONFIG_FAILURES } = EXTENSION_CONFIG.RECOVERY;
+    const snapshot = this.takeSnapshot(session);
+    let lastExit = crash;
+    let configFailures = crash.exitCode === 2 ? 1 : 0;
+    let attempt = 0;
+
+    if (configFailures >= MAX_CONFIG_FAILURES) {
+      this.giveUp(session, lastExit, configFailures);
+      return;
+    }
+
+    this.recovering.add(session.id);
+    try {
+      await retryWithBackoff(
+        async () => {
+          attempt++;
+          if (!this.isStillWanted(session)) {
+            return;
+          }
+
+          this.notifyStatus(
+            session,
+            `Aider exited unexpectedly, restarting (attempt ${attempt}/${MAX_RETRIES})...`
+          );
+          // Listen before starting so an exit during startup is not missed
+          const stability = this.waitForStability(session);
+          try {
+            await this.restart(session, snapshot);
+          } catch (error) {
+            this.exitWaiters.delete(session.id);
+            throw error;
+          }
+
+          const exit = await stability;
+          if (exit) {
+            lastExit = exit;
+            configFailures = exit.exitCode === 2 ? configFailures + 1 : 0;
+            throw new Error(`Aider exited again with code ${exit.exitCode}`);
+          }
+        },
+        MAX_RETRIES - 1,
+        BASE_DELAY_MS,
+        () => configFailures < MAX_CONFIG_FAILURES && this.isStillWanted(session)
+      );
+
+      if (this.isStillWanted(session)) {
+        this.notifyStatus(session, 'Aider restarted and chat files restored.');
+      }
+    } catch {
+      if (this.isStillWanted(session)) {
+        this.giveUp(session, lastExit, configFailures);
+      }
+    } finally {
+      this.recovering.delete(session.id);
+      this.exitWaiters.delete(session.id);
+    }
+  }
+
+  private takeSnapshot(session: AiderSession): RecoverySnapshot {
+    return {
+      model: session.model,
+      cols: session.terminalSize?.cols || EXTENSION_CONFIG.TERMINAL.COLS,
+      rows: session.terminalSize?.rows || EXTENSION_CONFIG.TERMINAL.ROWS,
+      editableFiles: session.chatFiles.editable,
+      readOnlyFiles: session.chatFiles.readOnly
+    };
+  }
+
+  private async restart(session: AiderSession, snapshot: RecoverySnapshot): Promise<void> {
+    session.model = snapshot.model;
+    await this.sessionManager.startSession(session.id, snapshot.cols, snapshot.rows);
+
+    // Files can only be re-added at the input prompt; an exit before then is
+    // reported through waitForStability
+    try {
+      await session.process.whenReady(EXTENSION_CONFIG.STARTUP.READY_TIMEOUT_MS);
+    } catch (error) {
+      console.warn(`Aider in ${session.id} did not become ready:`, error);
+      return;
+    }
+
+    if (snapshot.editableFiles.length > 0) {
+      session.process.sendMessage(`/add ${snapshot.editableFiles.map(quotePath).join(' ')}`);
+    }
+    if (snapshot.readOnlyFiles.length > 0) {
+      session.process.sendMessage(`/read-only ${snapshot.readOnlyFiles.map(quotePath).join(' ')}`);
+    }
+  }
+
+  /**
+   * Resolve with the exit info if the process dies again soon, otherwise undefined
+   */
+  private waitForStability(session: AiderSession): Promise<ProcessExitInfo | undefined> {
+    return new Promise(resolve => {
+      const waiter = (exitInfo: ProcessExitInfo): void => {
+        clearTimeout(timer);
+        resolve(exitInfo);
+      };
+      const timer = setTimeout(() => {
+        // A failed attempt may have been replaced by the next one's waiter
+        if (this.exitWaiters.get(session.id) === waiter) {
+          this.exitWaiters.delete(session.id);
+        }
+        resolve(undefined);
+      }, EXTENSION_CONFIG.RECOVERY.STABLE_AFTER_MS);
+
+      this.exitWaiters.set(session.id, waiter);
+    });
+  }
+
+  private isStillWanted(session: AiderSession): boolean {
+    return !!this.sessionManager.getSession(session.id) && !session.stopRequested;
+  }
+
+  private giveUp(session: AiderSession, lastExit: ProcessExitInfo, configFailures: number): void {
+    const reason = this.lastOutputLines(session, 3);
+    const message =
+      configFailures >= EXTENSION_CONFIG.RECOVERY.MAX_CONFIG_FAILURES
+        ? `Aider in "${session.name}" keeps exiting with a configuration error (exit code 2), so automatic restart was stopped. Check ~/.aider.conf.yml and that the model API is reachable.`
+        : `Aider in "${session.name}" could not be restarted (last exit code ${lastExit.exitCode}).`;
+    const details = reason ? `${message} Last output: ${reason}` : message;
+
+    console.error('🛑', details);
+    this.notifyStatus(session, details);
+    vscode.window.showErrorMessage(details);
+  }
+
+  private recordOutput(session: AiderSession, event: AiderOutputEvent): void {
+    const line = event.text.trim();
+    if (event.type === 'prompt' || !line) {
+      return;
+    }
+
+    const tail = (this.outputTails.get(session.id) || []).concat(line);
+    this.outputTails.set(session.id, tail.slice(-EXTENSION_CONFIG.RECOVERY.OUTPUT_TAIL_LINES));
+  }
+
+  private lastOutputLines(session: AiderSession, count: number): string {
+    return (this.outputTails.get(session.id) || []).slice(-count).join(' ');
+  }
+
+  private notifyStatus(session: AiderSession, message: string): void {
+    this.statusCallbacks.forEach(cb => {
+      try {
+        cb(session, message);
+      } catch (error) {
+        handleError(error, 'supervisor_status_callback');
+      }
+    });
+  }
+}
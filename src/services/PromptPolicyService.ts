@@ -0,0 +1,74 @@
+/**
+ * PromptPolicyService - decides how Aider's interactive prompts are answered
+ * Combines the aider.promptPolicies setting with answers remembered per workspace
+ */
+
+import * as vscode from 'vscode';
+import { AiderPrompt, AiderPromptType, PromptPolicy } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+
+export class PromptPolicyService {
+  constructor(private readonly workspaceState: vscode.Memento) {}
+
+  /**
+   * Effective policy for a prompt type; remembered answers win over settings
+   */
+  getPolicy(type: AiderPromptType): PromptPolicy {
+    const remembered = this.getRemembered()[type];
+    if (remembered) {
+      return remembered;
+    }
+
+    const configured = vscode.workspace
+      .getConfiguration('aider')
+      .get<Partial<Record<AiderPromptType, PromptPolicy>>>('promptPolicies', {});
+    return configured[type] || 'ask';
+  }
+
+  /**
+   * Text to type for an automatic answer, or undefined when the user must be asked
+   */
+  resolveAnswer(prompt: AiderPrompt): string | undefined {
+    const policy = this.getPolicy(prompt.type);
+
+    switch (policy) {
+      case 'default':
+        return '';
+      case 'yes':
+      case 'no': {
+        const key = policy === 'yes' ? 'y' : 'n';
+        if (prompt.type === 'continue') {
+          return '';
+        }
+        return prompt.options.some(option => option.key === key) ? key : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Remember a yes/no answer for this prompt type in the current workspace
+   */
+  async remember(type: AiderPromptType, answerKey: string): Promise<void> {
+    const policy: PromptPolicy | undefined =
+      answerKey === 'y' ? 'yes' : answerKey === 'n' ? 'no' : undefined;
+    if (!policy) {
+      return;
+    }
+
+    const remembered = { ...this.getRemembered(), [type]: policy };
+    await this.workspaceState.update(EXTENSION_CONFIG.STORAGE_KEYS.PROMPT_POLICIES, remembered);
+  }
+
+  async clearRemembered(): Promise<void> {
+    await this.workspaceState.update(EXTENSION_CONFIG.STORAGE_KEYS.PROMPT_POLICIES, undefined);
+  }
+
+  private getRemembered(): Partial<Record<AiderPromptType, PromptPolicy>> {
+    return this.workspaceState.get<Partial<Record<AiderPromptType, PromptPolicy>>>(
+      EXTENSION_CONFIG.STORAGE_KEYS.PROMPT_POLICIES,
+      {}
+    );
+  }
+}
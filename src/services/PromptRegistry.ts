@@ -0,0 +1,93 @@
+/**
+ * PromptRegistry service - recognises Aider's interactive questions
+ * Parses the offered options and default answer straight from the prompt text
+ */
+
+import { AiderPrompt, AiderPromptType, PromptOption } from '../types';
+
+interface PromptDefinition {
+  type: AiderPromptType;
+  pattern: RegExp;
+}
+
+// Known questions, matched against the question part of the prompt
+const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  { type: 'addFile', pattern: /^Add (?:file|these files) to the chat\?/i },
+  { type: 'addUrl', pattern: /^Add URL to the chat\?/i },
+  { type: 'createFile', pattern: /^Create new file\?/i },
+  { type: 'runShell', pattern: /^Run shell commands?\?/i },
+  { type: 'addOutput', pattern: /^Add command output to the chat\?/i },
+  { type: 'fixLint', pattern: /^(?:Attempt to fix|Fix) lint errors/i },
+  { type: 'fixTests', pattern: /^(?:Attempt to fix|Fix) test errors/i },
+  { type: 'editFile', pattern: /^Allow edits to/i },
+  { type: 'openUrl', pattern: /^Open (?:documentation )?URL/i }
+];
+
+// "Question? (Y)es/(N)o/(D)on't ask again [Yes]: "
+const CONFIRM_PATTERN = /^(.*\?)\s*((?:\([A-Za-z]\)[^/[]*\/?)+)\s*\[([^\]]+)\]:?\s*$/;
+const OPTION_PATTERN = /^\(([A-Za-z])\)(.*)$/;
+const CONTINUE_PATTERN = /Press (?:RETURN|Enter|any key) to continue/i;
+
+export class PromptRegistry {
+  /**
+   * All prompt types a policy can be configured for
+   */
+  static readonly PROMPT_TYPES: AiderPromptType[] = PROMPT_DEFINITIONS.map(d => d.type);
+
+  /**
+   * Parse a pending (unterminated) output line into a prompt, if it is one
+   * @param text Plain-text prompt line
+   * @param subject Preceding output line (file name, URL, command...)
+   */
+  static parse(text: string, subject?: string): AiderPrompt | undefined {
+    const trimmed = text.trim();
+
+    if (CONTINUE_PATTERN.test(trimmed)) {
+      return {
+        type: 'continue',
+        text: trimmed,
+        subject,
+        options: [{ key: '', label: 'Continue' }],
+        defaultKey: ''
+      };
+    }
+
+    const match = trimmed.match(CONFIRM_PATTERN);
+    if (!match) {
+      return undefined;
+    }
+
+    const question = match[1].trim();
+    const options = this.parseOptions(match[2]);
+    if (options.length === 0) {
+      return undefined;
+    }
+
+    const defaultLabel = match[3].trim().toLowerCase();
+    const defaultOption = options.find(option => option.label.toLowerCase() === defaultLabel);
+
+    return {
+      type: this.classify(question),
+      text: question,
+      subject,
+      options,
+      defaultKey: defaultOption?.key
+    };
+  }
+
+  private static parseOptions(segment: string): PromptOption[] {
+    return segment
+      .split('/')
+      .map(part => part.trim().match(OPTION_PATTERN))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => ({
+        key: match[1].toLowerCase(),
+        label: `${match[1].toUpperCase()}${match[2]}`.trim()
+      }));
+  }
+
+  private static classify(question: string): AiderPromptType {
+    const definition = PROMPT_DEFINITIONS.find(d => d.pattern.test(question));
+    return definition ? definition.type : 'confirmation';
+  }
+}
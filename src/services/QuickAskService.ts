@@ -0,0 +1,103 @@
+/**
+ * QuickAskService - runs Aider once with --message, outside any chat session
+ * Uses the same CLI args as chat sessions and parses the output into a reply
+ */
+
+import * as vscode from 'vscode';
+import {
+  EffectiveAiderConfig,
+  IAiderTransport,
+  QuickAskRequest,
+  QuickAskResult,
+  TransportFactory
+} from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderProcess } from './AiderProcess';
+import { AiderOutputParser } from './AiderOutputParser';
+import { spawnConfiguredTransport } from './transports';
+import { loadAiderConfig, maskSecretArgs } from '../utils/aiderConfig';
+
+// Startup lines Aider prints before it answers; they are not part of the reply
+const BANNER_PATTERN =
+  /^(Aider v\d|(Main|Weak|Editor) model:|Git repo:|Repo-map:|Added .+ to the chat|Use \/help|Cur working dir:)/;
+
+export class QuickAskService {
+  constructor(private readonly transportFactory: TransportFactory = spawnConfiguredTransport) {}
+
+  /**
+   * Run Aider non-interactively, with the configured transport, and resolve when it exits
+   * Rejects when Aider cannot be started
+   * @param onProgress Receives each reply line as it arrives
+   */
+  async run(
+    request: QuickAskRequest,
+    onProgress: (line: string) => void,
+    token: vscode.CancellationToken
+  ): Promise<QuickAskResult> {
+    const config = loadAiderConfig(request.workspaceFolder);
+    const args = this.buildArgs(request, config);
+    console.log('⚡ Quick ask with args:', JSON.stringify(maskSecretArgs(args)));
+
+    const { COLS, ROWS } = EXTENSION_CONFIG.TERMINAL;
+    const transport: IAiderTransport = await this.transportFactory({
+      args,
+      cwd: request.workspaceFolder,
+      env: AiderProcess.buildProcessEnvironment(config, COLS, ROWS),
+      cols: COLS,
+      rows: ROWS
+    });
+
+    return new Promise(resolve => {
+      const parser = new AiderOutputParser();
+      const outputLines: string[] = [];
+      const replyLines: string[] = [];
+      const editedFiles: string[] = [];
+
+      parser.onEvent(event => {
+        if (event.type === 'prompt' || event.type === 'input' || event.type === 'confirm') {
+          return;
+        }
+        outputLines.push(event.text);
+
+        if (event.type === 'appliedEdit') {
+          editedFiles.push(event.file);
+        }
+        // Banner, token and cost lines are only kept in the full output
+        if (
+          (event.type === 'assistant' || event.type === 'info') &&
+          !BANNER_PATTERN.test(event.text.trim())
+        ) {
+          replyLines.push(event.text);
+          onProgress(event.text);
+        }
+      });
+
+      const cancel = token.onCancellationRequested(() => transport.kill('SIGTERM'));
+      transport.onData(data => parser.feed(data));
+      transport.onExit(exitInfo => {
+        cancel.dispose();
+        parser.flush();
+        parser.dispose();
+        resolve({
+          exitCode: exitInfo.exitCode,
+          reply: replyLines.join('\n').trim(),
+          output: outputLines.join('\n').trim(),
+          editedFiles
+        });
+      });
+    });
+  }
+
+  private buildArgs(request: QuickAskRequest, config: EffectiveAiderConfig): string[] {
+    const args = AiderProcess.buildAiderArgs(request.model, config);
+
+    // Nobody is there to answer questions, and the reply is read as plain text
+    args.push('--yes-always');
+    if (!args.includes('--no-pretty')) {
+      args.push('--no-pretty');
+    }
+
+    args.push('--message', request.message, ...request.files);
+    return args;
+  }
+}
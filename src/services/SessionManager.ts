@@ -0,0 +1,278 @@
+/**
+ * SessionManager service - owns the set of concurrent Aider sessions
+ * Each session wraps its own AiderProcess, model, working folder and history
+ */
+
+import {
+  AiderSession,
+  AiderSessionInfo,
+  IAiderProcess,
+  ProcessExitInfo,
+  AiderError,
+  AiderOutputEvent,
+  AiderPrompt
+} from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { AiderProcess } from './AiderProcess';
+import { ChatFileTracker } from './ChatFileTracker';
+import { handleError, safeAsync } from '../utils/errorHandler';
+
+export class SessionManager {
+  private readonly sessions = new Map<string, AiderSession>();
+  private _activeSessionId: string | undefined;
+  private sessionCounter = 0;
+  private dataCallbacks: ((session: AiderSession, data: string) => void)[] = [];
+  private exitCallbacks: ((session: AiderSession, exitInfo: ProcessExitInfo) => void)[] = [];
+  private errorCallbacks: ((session: AiderSession, error: AiderError) => void)[] = [];
+  private promptCallbacks: ((session: AiderSession, prompt: AiderPrompt) => void)[] = [];
+  private outputCallbacks: ((session: AiderSession, event: AiderOutputEvent) => void)[] = [];
+  private changeCallbacks: (() => void)[] = [];
+  private chatFilesCallbacks: ((session: AiderSession) => void)[] = [];
+
+  constructor(private readonly processFactory: () => IAiderProcess = () => new AiderProcess()) {}
+
+  get activeSession(): AiderSession | undefined {
+    return this._activeSessionId ? this.sessions.get(this._activeSessionId) : undefined;
+  }
+
+  getSession(sessionId: string | undefined): AiderSession | undefined {
+    return sessionId ? this.sessions.get(sessionId) : undefined;
+  }
+
+  getSessions(): AiderSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Create a session (not yet started) and make it the active one
+   */
+  createSession(model: string, workspaceFolder: string, name?: string): AiderSession {
+    this.sessionCounter++;
+    const session: AiderSession = {
+      id: `session-${this.sessionCounter}`,
+      name: name || `${EXTENSION_CONFIG.SESSIONS.DEFAULT_NAME_PREFIX} ${this.sessionCounter}`,
+      model,
+      workspaceFolder,
+      process: this.processFactory(),
+      chatFiles: new ChatFileTracker(),
+      conversationHistory: [],
+      createdAt: new Date(),
+      pendingStart: true,
+      stopRequested: false
+    };
+
+    this.attachProcessHandlers(session);
+    session.chatFiles.onChanged(() =>
+      this.notify(this.chatFilesCallbacks, 'chat_files', session, undefined)
+    );
+    this.sessions.set(session.id, session);
+    this._activeSessionId = session.id;
+    console.log(`🗂️ Created ${session.id} (${session.name}) in ${workspaceFolder}`);
+
+    this.notifyChanged();
+    return session;
+  }
+
+  setActiveSession(sessionId: string): void {
+    if (!this.sessions.has(sessionId) || this._activeSessionId === sessionId) {
+      return;
+    }
+
+    this._activeSessionId = sessionId;
+    this.notifyChanged();
+  }
+
+  /**
+   * Start the session's Aider process with the given terminal size
+   */
+  async startSession(sessionId: string, cols: number, rows: number): Promise<void> {
+    const session = this.requireSession(sessionId);
+
+    session.terminalSize = { cols, rows };
+    session.pendingStart = false;
+    session.stopRequested = false;
+    // A fresh process starts with an empty chat; restarts re-add files from their own snapshot
+    session.chatFiles.clear();
+    try {
+      await session.process.startWithSize(session.model, session.workspaceFolder, cols, rows);
+    } finally {
+      this.notifyChanged();
+    }
+  }
+
+  async stopSession(sessionId: string): Promise<void> {
+    const session = this.requireSession(sessionId);
+
+    session.pendingStart = false;
+    session.stopRequested = true;
+    await session.process.stop();
+    this.notifyChanged();
+  }
+
+  renameSession(sessionId: string, name: string): void {
+    const session = this.requireSession(sessionId);
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    session.name = trimmed;
+    this.notifyChanged();
+  }
+
+  /**
+   * Record the model a session runs, e.g. after Aider switched it with /model
+   */
+  setSessionModel(sessionId: string, model: string): void {
+    const session = this.requireSession(sessionId);
+    if (session.model === model) {
+      return;
+    }
+
+    session.model = model;
+    this.notifyChanged();
+  }
+
+  /**
+   * Stop and remove a session, activating a neighbour if it was active
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    const ids = Array.from(this.sessions.keys());
+    const index = ids.indexOf(sessionId);
+
+    session.stopRequested = true;
+    await safeAsync(() => session.process.stop(), 'session_close');
+    session.process.dispose();
+    session.chatFiles.dispose();
+    this.sessions.delete(sessionId);
+
+    if (this._activeSessionId === sessionId) {
+      const remaining = ids.filter(id => id !== sessionId);
+      this._activeSessionId = remaining[Math.min(index, remaining.length - 1)];
+    }
+
+    this.notifyChanged();
+  }
+
+  /**
+   * Serializable snapshot used by the webview tab bar
+   */
+  getSessionInfos(): AiderSessionInfo[] {
+    return this.getSessions().map(session => ({
+      id: session.id,
+      name: session.name,
+      model: session.model,
+      workspaceFolder: session.workspaceFolder,
+      isRunning: session.process.isRunning,
+      isReady: session.process.isReady
+    }));
+  }
+
+  onSessionData(callback: (session: AiderSession, data: string) => void): void {
+    this.dataCallbacks.push(callback);
+  }
+
+  onSessionExit(callback: (session: AiderSession, exitInfo: ProcessExitInfo) => void): void {
+    this.exitCallbacks.push(callback);
+  }
+
+  onSessionError(callback: (session: AiderSession, error: AiderError) => void): void {
+    this.errorCallbacks.push(callback);
+  }
+
+  onSessionPrompt(callback: (session: AiderSession, prompt: AiderPrompt) => void): void {
+    this.promptCallbacks.push(callback);
+  }
+
+  onSessionOutput(callback: (session: AiderSession, event: AiderOutputEvent) => void): void {
+    this.outputCallbacks.push(callback);
+  }
+
+  onSessionsChanged(callback: () => void): void {
+    this.changeCallbacks.push(callback);
+  }
+
+  onChatFilesChanged(callback: (session: AiderSession) => void): void {
+    this.chatFilesCallbacks.push(callback);
+  }
+
+  dispose(): void {
+    this.sessions.forEach(session => {
+      session.stopRequested = true;
+      session.process.dispose();
+      session.chatFiles.dispose();
+    });
+    this.sessions.clear();
+    this._activeSessionId = undefined;
+
+    this.dataCallbacks = [];
+    this.exitCallbacks = [];
+    this.errorCallbacks = [];
+    this.promptCallbacks = [];
+    this.outputCallbacks = [];
+    this.changeCallbacks = [];
+    this.chatFilesCallbacks = [];
+  }
+
+  private requireSession(sessionId: string): AiderSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Unknown Aider session: ${sessionId}`);
+    }
+    return session;
+  }
+
+  private attachProcessHandlers(session: AiderSession): void {
+    session.process.onData(data => this.notify(this.dataCallbacks, 'session_data', session, data));
+
+    session.process.onOutputEvent(event => {
+      session.chatFiles.processEvent(event);
+      this.notify(this.outputCallbacks, 'session_output', session, event);
+    });
+
+    session.process.onReady(() => this.notifyChanged());
+
+    session.process.onExit(exitInfo => {
+      this.notify(this.exitCallbacks, 'session_exit', session, exitInfo);
+      this.notifyChanged();
+    });
+
+    session.process.onError(error =>
+      this.notify(this.errorCallbacks, 'session_error', session, error)
+    );
+
+    session.process.onPrompt(prompt =>
+      this.notify(this.promptCallbacks, 'session_prompt', session, prompt)
+    );
+  }
+
+  private notify<T>(
+    callbacks: ((session: AiderSession, payload: T) => void)[],
+    context: string,
+    session: AiderSession,
+    payload: T
+  ): void {
+    callbacks.forEach(cb => {
+      try {
+        cb(session, payload);
+      } catch (error) {
+        handleError(error, `${context}_callback`);
+      }
+    });
+  }
+
+  private notifyChanged(): void {
+    this.changeCallbacks.forEach(cb => {
+      try {
+        cb();
+      } catch (error) {
+        handleError(error, 'sessions_changed_callback');
+      }
+    });
+  }
+}
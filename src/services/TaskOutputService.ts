@@ -0,0 +1,149 @@
+/**
+ * TaskOutputService - finds the output of a VS Code task
+ * The task API cannot read a task's terminal, so the terminal text is copied from it;
+ * a task that has no terminal yet can be re-run here instead, with a time limit
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import * as vscode from 'vscode';
+import { CommandOutput } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+
+// VS Code starts each task run in its terminal with this line
+const TASK_START_PATTERN = /^.*Executing task\b.*$/gm;
+
+export class TaskOutputService {
+  /**
+   * Whether the task runs a command this service can re-run
+   */
+  static canCapture(task: vscode.Task): boolean {
+    return (
+      task.execution instanceof vscode.ShellExecution ||
+      task.execution instanceof vscode.ProcessExecution
+    );
+  }
+
+  /**
+   * The terminal the task last ran in, if it is still open
+   */
+  findTerminal(task: vscode.Task): vscode.Terminal | undefined {
+    return vscode.window.terminals.find(
+      terminal => terminal.name === task.name || terminal.name === `Task - ${task.name}`
+    );
+  }
+
+  /**
+   * Keep the last run of a reused task terminal's text
+   */
+  lastRunOutput(terminalText: string): string {
+    const starts = Array.from(terminalText.matchAll(TASK_START_PATTERN));
+    const last = starts[starts.length - 1];
+    return last?.index !== undefined ? terminalText.slice(last.index) : terminalText;
+  }
+
+  /**
+   * Run the task's command again and resolve with its combined stdout and stderr
+   * Rejects when it runs longer than SEND_OUTPUT.TASK_TIMEOUT_MS
+   */
+  run(task: vscode.Task, token: vscode.CancellationToken): Promise<CommandOutput> {
+    return new Promise((resolve, reject) => {
+      const folder = this.getTaskFolder(task);
+      const execution = task.execution;
+      const options =
+        execution instanceof vscode.ShellExecution || execution instanceof vscode.ProcessExecution
+          ? execution.options
+          : undefined;
+      const cwd = options?.cwd ? this.resolveVariables(options.cwd, folder) : folder;
+      const env = { ...process.env, ...(options?.env || {}) };
+
+      let child: ChildProcess;
+      try {
+        if (execution instanceof vscode.ShellExecution) {
+          const shell = execution.options?.executable || true;
+          child = spawn(this.resolveVariables(this.getCommandLine(execution), folder), {
+            cwd,
+            env,
+            shell
+          });
+        } else if (execution instanceof vscode.ProcessExecution) {
+          child = spawn(
+            this.resolveVariables(execution.process, folder),
+            execution.args.map(arg => this.resolveVariables(arg, folder)),
+            { cwd, env }
+          );
+        } else {
+          reject(new Error(`Task "${task.name}" does not run a shell or process command`));
+          return;
+        }
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const chunks: string[] = [];
+      const timeoutMs = EXTENSION_CONFIG.SEND_OUTPUT.TASK_TIMEOUT_MS;
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGTERM');
+      }, timeoutMs);
+      const cancel = token.onCancellationRequested(() => child.kill('SIGTERM'));
+      const settle = (): void => {
+        clearTimeout(timer);
+        cancel.dispose();
+      };
+
+      child.stdout?.on('data', (data: Buffer) => chunks.push(data.toString()));
+      child.stderr?.on('data', (data: Buffer) => chunks.push(data.toString()));
+      child.on('error', error => {
+        settle();
+        reject(error);
+      });
+      child.on('close', code => {
+        settle();
+        if (timedOut) {
+          reject(
+            new Error(`it was still running after ${timeoutMs / 1000}s (is it a watch task?)`)
+          );
+          return;
+        }
+        resolve({ exitCode: code ?? -1, output: chunks.join('') });
+      });
+    });
+  }
+
+  private getCommandLine(execution: vscode.ShellExecution): string {
+    if (execution.commandLine) {
+      return execution.commandLine;
+    }
+
+    const parts = [execution.command, ...(execution.args || [])].filter(
+      (part): part is string | vscode.ShellQuotedString => part !== undefined
+    );
+    return parts
+      .map(part => (typeof part === 'string' ? part : part.value))
+      .map(part => (/\s/.test(part) ? `"${part}"` : part))
+      .join(' ');
+  }
+
+  private getTaskFolder(task: vscode.Task): string | undefined {
+    if (task.scope && typeof task.scope === 'object') {
+      return task.scope.uri.fsPath;
+    }
+    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  }
+
+  /**
+   * Substitute the task variables that commonly appear in commands and working folders
+   */
+  private resolveVariables(value: string, folder: string | undefined): string {
+    if (!folder) {
+      return value;
+    }
+    return value
+      .replace(/\$\{workspaceFolder\}/g, folder)
+      .replace(/\$\{workspaceRoot\}/g, folder)
+      .replace(/\$\{workspaceFolderBasename\}/g, folder.split(/[\\/]/).pop() || '')
+      .replace(/\$\{cwd\}/g, folder);
+  }
+}
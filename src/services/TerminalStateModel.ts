@@ -0,0 +1,61 @@
+/**
+ * TerminalStateModel service - headless mirror of the Aider PTY screen
+ * Tracks the real cursor and is the only responder to device-status queries
+ */
+
+import { Terminal } from '@xterm/headless';
+import { handleError } from '../utils/errorHandler';
+
+export class TerminalStateModel {
+  private readonly terminal: Terminal;
+  private replyCallbacks: ((reply: string) => void)[] = [];
+
+  constructor(cols: number, rows: number) {
+    this.terminal = new Terminal({ cols, rows, allowProposedApi: true, scrollback: 0 });
+
+    // With no user attached, everything the headless terminal "types" is a reply to
+    // a query in the output stream (CPR, DSR, DA...), emitted in stream order
+    this.terminal.onData(reply => this.notifyReply(reply));
+  }
+
+  /**
+   * 1-based cursor position, as reported in a CPR reply
+   */
+  get cursor(): { row: number; col: number } {
+    const buffer = this.terminal.buffer.active;
+    return { row: buffer.cursorY + 1, col: buffer.cursorX + 1 };
+  }
+
+  get size(): { cols: number; rows: number } {
+    return { cols: this.terminal.cols, rows: this.terminal.rows };
+  }
+
+  write(data: string): void {
+    this.terminal.write(data);
+  }
+
+  resize(cols: number, rows: number): void {
+    if (cols > 0 && rows > 0) {
+      this.terminal.resize(cols, rows);
+    }
+  }
+
+  onReply(callback: (reply: string) => void): void {
+    this.replyCallbacks.push(callback);
+  }
+
+  dispose(): void {
+    this.replyCallbacks = [];
+    this.terminal.dispose();
+  }
+
+  private notifyReply(reply: string): void {
+    this.replyCallbacks.forEach(cb => {
+      try {
+        cb(reply);
+      } catch (error) {
+        handleError(error, 'terminal_reply_callback');
+      }
+    });
+  }
+}
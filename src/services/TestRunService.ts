@@ -0,0 +1,109 @@
+/**
+ * TestRunService - follows Aider's /test runs to report pass or fail
+ * Aider only adds the test output to the chat when the command exits non-zero
+ */
+
+import { TestRunResult } from '../types';
+import { EXTENSION_CONFIG } from '../config/constants';
+import { SessionManager } from './SessionManager';
+
+const ADDED_OUTPUT_PATTERN = /^Added \d+ lines? of output to the chat/;
+
+interface PendingTestRun {
+  started: boolean;
+  failed: boolean;
+  output: string[];
+  timer: NodeJS.Timeout;
+  resolve: (result: TestRunResult) => void;
+  reject: (error: Error) => void;
+}
+
+export class TestRunService {
+  private readonly runs = new Map<string, PendingTestRun>();
+
+  constructor(private readonly sessionManager: SessionManager) {
+    this.sessionManager.onSessionOutput((session, event) => {
+      const run = this.runs.get(session.id);
+      if (!run) {
+        return;
+      }
+
+      // The echoed "/test ..." line marks the start; earlier prompts belong to queued messages
+      if (event.type === 'input') {
+        run.started = run.started || event.text.trim().startsWith('/test');
+        return;
+      }
+      if (!run.started) {
+        return;
+      }
+
+      if (event.type === 'prompt') {
+        this.settle(session.id);
+        run.resolve({ passed: !run.failed, output: run.output.join('\n') });
+        return;
+      }
+
+      // After a failure Aider goes on to fix it; that reply is not test output
+      if (!run.failed && (event.type === 'assistant' || event.type === 'info')) {
+        if (ADDED_OUTPUT_PATTERN.test(event.text.trim())) {
+          run.failed = true;
+        } else {
+          run.output.push(event.text);
+        }
+      }
+    });
+
+    this.sessionManager.onSessionExit(session =>
+      this.settle(session.id)?.reject(new Error('Aider exited before the tests finished'))
+    );
+  }
+
+  /**
+   * Resolve with the result of the next /test the session runs
+   * Rejects when the session exits or no result is seen within TEST_RUN.TIMEOUT_MS
+   */
+  waitForResult(sessionId: string): Promise<TestRunResult> {
+    this.settle(sessionId)?.reject(new Error('Superseded by a newer test run'));
+
+    return new Promise((resolve, reject) => {
+      const timeoutMs = EXTENSION_CONFIG.TEST_RUN.TIMEOUT_MS;
+      const timer = setTimeout(
+        () =>
+          this.settle(sessionId)?.reject(
+            new Error(`No test result from Aider after ${timeoutMs / 60000} minutes`)
+          ),
+        timeoutMs
+      );
+      this.runs.set(sessionId, {
+        started: false,
+        failed: false,
+        output: [],
+        timer,
+        resolve,
+        reject
+      });
+    });
+  }
+
+  isRunning(sessionId: string): boolean {
+    return this.runs.has(sessionId);
+  }
+
+  dispose(): void {
+    Array.from(this.runs.keys()).forEach(sessionId =>
+      this.settle(sessionId)?.reject(new Error('Extension is shutting down'))
+    );
+  }
+
+  /**
+   * Stop tracking a session's run and return it so the caller can resolve or reject it
+   */
+  private settle(sessionId: string): PendingTestRun | undefined {
+    const run = this.runs.get(sessionId);
+    if (run) {
+      this.runs.delete(sessionId);
+      clearTimeout(run.timer);
+    }
+    return run;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * ChildProcessTransport - runs Aider with plain pipes, no PTY
+ * For headless machines where node-pty is unavailable
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { constants } from 'os';
+import { IAiderTransport, ProcessExitInfo, TransportSpawnOptions } from '../../types';
+
+// Without a TTY, Aider must not use prompt_toolkit or rich formatting
+const HEADLESS_ARGS = ['--no-fancy-input', '--no-pretty'];
+
+export class ChildProcessTransport implements IAiderTransport {
+  private errorCallbacks: ((error: Error) => void)[] = [];
+
+  private constructor(private readonly child: ChildProcess) {
+    // Writing after Aider closed its end of the pipe fails with EPIPE; without a listener
+    // the stream error would be thrown in the extension host
+    this.child.stdin?.on('error', error => this.notifyError(error));
+    this.child.on('error', error => this.notifyError(error));
+  }
+
+  static async spawn(file: string, options: TransportSpawnOptions): Promise<ChildProcessTransport> {
+    const args = [...options.args, ...HEADLESS_ARGS.filter(arg => !options.args.includes(arg))];
+    const child = spawn(file, args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+
+    // Surface spawn failures (e.g. aider not on PATH) before the process is used
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', () => resolve());
+      child.once('error', reject);
+    });
+
+    return new ChildProcessTransport(child);
+  }
+
+  write(data: string): void {
+    // Ctrl-C has no line discipline to turn it into a signal here
+    if (data.includes('\x03')) {
+      this.child.kill('SIGINT');
+      data = data.replace(/\x03/g, '');
+    }
+
+    // Once the process is gone its stdin is destroyed and would drop the write silently
+    if (!this.child.stdin?.writable) {
+      this.notifyError(new Error('Aider is no longer reading input'));
+      return;
+    }
+    this.child.stdin.write(data.replace(/\r\n?/g, '\n'));
+  }
+
+  resize(_cols: number, _rows: number): void {
+    // Pipes have no window size
+  }
+
+  kill(signal?: 'SIGINT' | 'SIGTERM' | 'SIGKILL'): void {
+    this.child.kill(signal);
+  }
+
+  onData(callback: (data: string) => void): void {
+    this.child.stdout?.on('data', (data: Buffer) => callback(data.toString()));
+    this.child.stderr?.on('data', (data: Buffer) => callback(data.toString()));
+  }
+
+  onExit(callback: (exitInfo: ProcessExitInfo) => void): void {
+    this.child.on('exit', (code, signal) =>
+      callback({ exitCode: code ?? -1, signal: signal ? constants.signals[signal] : undefined })
+    );
+  }
+
+  onError(callback: (error: Error) => void): void {
+    this.errorCallbacks.push(callback);
+  }
+
+  private notifyError(error: Error): void {
+    if (this.errorCallbacks.length === 0) {
+      console.error('Aider child process error:', error);
+      return;
+    }
+    this.errorCallbacks.forEach(callback => callback(error));
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Command wrapper transport - runs Aider through another command in a PTY
+ * e.g. ["docker", "exec", "-it", "devcontainer"] or ["./scripts/aider-launcher.sh"]
+ */
+
+import { IAiderTransport, TransportSpawnOptions } from '../../types';
+import { PtyTransport } from './PtyTransport';
+
+/**
+ * Spawn `<wrapper...> aider <args...>`
+ * @param wrapper Command and arguments placed in front of the aider invocation
+ */
+export async function spawnCommandWrapper(
+  wrapper: string[],
+  options: TransportSpawnOptions
+): Promise<IAiderTransport> {
+  const [file, ...wrapperArgs] = wrapper.filter(part => part.trim());
+  if (!file) {
+    throw new Error('aider.transportCommand must name the wrapper command to run Aider with');
+  }
+
+  console.log(`🧳 Running Aider through wrapper: ${wrapper.join(' ')}`);
+  return PtyTransport.spawn(file, { ...options, args: [...wrapperArgs, 'aider', ...options.args] });
+}
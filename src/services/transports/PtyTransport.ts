@@ -0,0 +1,56 @@
+/**
+ * PtyTransport - runs a command in a local pseudo-terminal via node-pty
+ */
+
+import type { IPty } from '@lydell/node-pty';
+import { IAiderTransport, ProcessExitInfo, TransportSpawnOptions } from '../../types';
+import { EXTENSION_CONFIG } from '../../config/constants';
+
+export class PtyTransport implements IAiderTransport {
+  private constructor(private readonly pty: IPty) {}
+
+  /**
+   * Spawn a command in a PTY sized to the webview terminal
+   * @param file Executable to run ('aider', or a wrapper such as 'docker')
+   */
+  static async spawn(file: string, options: TransportSpawnOptions): Promise<PtyTransport> {
+    console.log('📦 Dynamically importing node-pty...');
+    const pty = await import('@lydell/node-pty');
+    console.log('✅ node-pty imported successfully');
+
+    return new PtyTransport(
+      pty.spawn(file, options.args, {
+        name: EXTENSION_CONFIG.TERMINAL.NAME,
+        cols: options.cols,
+        rows: options.rows,
+        env: options.env,
+        cwd: options.cwd
+      })
+    );
+  }
+
+  write(data: string): void {
+    this.pty.write(data);
+  }
+
+  resize(cols: number, rows: number): void {
+    this.pty.resize(cols, rows);
+  }
+
+  kill(signal?: 'SIGINT' | 'SIGTERM' | 'SIGKILL'): void {
+    // node-pty does not support signals on Windows
+    if (!signal || process.platform === 'win32') {
+      this.pty.kill();
+    } else {
+      this.pty.kill(signal);
+    }
+  }
+
+  onData(callback: (data: string) => void): void {
+    this.pty.onData(callback);
+  }
+
+  onExit(callback: (exitInfo: ProcessExitInfo) => void): void {
+    this.pty.onExit(({ exitCode, signal }) => callback({ exitCode, signal }));
+  }
+}
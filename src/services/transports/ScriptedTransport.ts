@@ -0,0 +1,164 @@
+/**
+ * ScriptedTransport - in-memory stand-in for Aider
+ * Replays a script of canned replies so the UI can be exercised without Aider installed
+ */
+
+import { IAiderTransport, ProcessExitInfo, ScriptedTransportScript } from '../../types';
+import { handleError } from '../../utils/errorHandler';
+
+const DEFAULT_SCRIPT: ScriptedTransportScript = {
+  banner:
+    'Aider v0.0.0 (scripted transport)\nModel: scripted with whole edit format\nGit repo: none\n',
+  prompt: '> ',
+  responses: [
+    { match: '^/exit$', output: '', exitCode: 0 },
+    { match: '^/add (.+)$', output: 'Added $1 to the chat\n' },
+    { match: '^/drop (.+)$', output: 'Removed $1 from the chat\n' },
+    { match: '^/model (.+)$', output: 'Model: $1 with whole edit format\n' },
+    { match: '.*', output: 'Scripted reply to: $0\n\nTokens: 10 sent, 5 received.\n' }
+  ]
+};
+
+export class ScriptedTransport implements IAiderTransport {
+  private dataCallbacks: ((data: string) => void)[] = [];
+  private exitCallbacks: ((exitInfo: ProcessExitInfo) => void)[] = [];
+  private lineBuffer = '';
+  // Lines of a {tag ... tag} block being typed, answered as one message
+  private block: { tag: string; lines: string[] } | null = null;
+  private exited = false;
+  // Like Aider, --message answers once and exits instead of prompting
+  private readonly message: string | undefined;
+
+  constructor(
+    private readonly script: ScriptedTransportScript = DEFAULT_SCRIPT,
+    args: string[] = []
+  ) {
+    const messageIndex = args.indexOf('--message');
+    this.message = messageIndex >= 0 ? args[messageIndex + 1] || '' : undefined;
+
+    // Emit asynchronously so callers can subscribe first, like a real process
+    setTimeout(() => {
+      if (this.message === undefined) {
+        this.emit(`${this.script.banner}${this.script.prompt}`);
+        return;
+      }
+      this.emit(this.script.banner);
+      this.respond(this.message);
+    }, 0);
+  }
+
+  write(data: string): void {
+    if (this.exited) {
+      return;
+    }
+
+    if (data.includes('\x03')) {
+      this.emit(`^C\n${this.script.prompt}`);
+      return;
+    }
+
+    // Echo like a terminal would, then answer every completed line
+    this.emit(data.replace(/\r/g, '\r\n'));
+    this.lineBuffer += data;
+    const lines = this.lineBuffer.split(/\r\n?|\n/);
+    this.lineBuffer = lines.pop() || '';
+    lines.forEach(line => this.receiveLine(line.trim()));
+  }
+
+  resize(_cols: number, _rows: number): void {
+    // Nothing to lay out
+  }
+
+  kill(signal?: 'SIGINT' | 'SIGTERM' | 'SIGKILL'): void {
+    if (signal === 'SIGINT') {
+      this.emit(`^C\n${this.script.prompt}`);
+      return;
+    }
+    this.exit({ exitCode: 0, signal: signal === 'SIGKILL' ? 9 : 15 });
+  }
+
+  onData(callback: (data: string) => void): void {
+    this.dataCallbacks.push(callback);
+  }
+
+  onExit(callback: (exitInfo: ProcessExitInfo) => void): void {
+    this.exitCallbacks.push(callback);
+  }
+
+  private receiveLine(line: string): void {
+    if (this.block) {
+      if (line === `${this.block.tag}}`) {
+        const message = this.block.lines.join('\n');
+        this.block = null;
+        this.respond(message);
+      } else {
+        this.block.lines.push(line);
+      }
+      return;
+    }
+
+    const opening = line.match(/^\{([a-zA-Z0-9]*)$/);
+    if (opening) {
+      this.block = { tag: opening[1], lines: [] };
+      return;
+    }
+    this.respond(line);
+  }
+
+  private respond(line: string): void {
+    for (const response of this.script.responses) {
+      const match = line.match(new RegExp(response.match));
+      if (!match) {
+        continue;
+      }
+
+      const output = response.output.replace(/\$(\d)/g, (_, index) => match[Number(index)] || '');
+      setTimeout(() => {
+        this.emit(output);
+        this.afterResponse(response.exitCode);
+      }, this.script.delayMs || 0);
+      return;
+    }
+
+    this.afterResponse(undefined);
+  }
+
+  private afterResponse(exitCode: number | undefined): void {
+    if (exitCode !== undefined || this.message !== undefined) {
+      this.exit({ exitCode: exitCode ?? 0 });
+    } else {
+      this.emit(this.script.prompt);
+    }
+  }
+
+  private exit(exitInfo: ProcessExitInfo): void {
+    if (this.exited) {
+      return;
+    }
+    this.exited = true;
+    setTimeout(() => {
+      this.exitCallbacks.forEach(cb => {
+        try {
+          cb(exitInfo);
+        } catch (error) {
+          handleError(error, 'scripted_exit_callback');
+        }
+      });
+    }, 0);
+  }
+
+  private emit(data: string): void {
+    if (!data) {
+      return;
+    }
+
+    const text = data.replace(/(?<!\r)\n/g, '\r\n');
+    this.dataCallbacks.forEach(cb => {
+      try {
+        cb(text);
+      } catch (error) {
+        handleError(error, 'scripted_data_callback');
+      }
+    });
+  }
+}
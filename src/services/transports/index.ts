@@ -0,0 +1,67 @@
+/**
+ * Transport exports - how Aider processes are launched
+ * The transport is chosen from the aider.transport setting each time a process starts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import * as vscode from 'vscode';
+import {
+  AiderTransportKind,
+  IAiderTransport,
+  ScriptedTransportScript,
+  TransportSpawnOptions
+} from '../../types';
+import { PtyTransport } from './PtyTransport';
+import { ChildProcessTransport } from './ChildProcessTransport';
+import { ScriptedTransport } from './ScriptedTransport';
+import { spawnCommandWrapper } from './CommandWrapperTransport';
+
+export { PtyTransport } from './PtyTransport';
+export { ChildProcessTransport } from './ChildProcessTransport';
+export { ScriptedTransport } from './ScriptedTransport';
+export { spawnCommandWrapper } from './CommandWrapperTransport';
+
+/**
+ * Spawn Aider with the transport selected in settings
+ */
+export async function spawnConfiguredTransport(
+  options: TransportSpawnOptions
+): Promise<IAiderTransport> {
+  const config = vscode.workspace.getConfiguration('aider');
+  const kind = config.get<AiderTransportKind>('transport', 'pty');
+  console.log(`🔌 Using ${kind} transport`);
+
+  switch (kind) {
+    case 'childProcess':
+      return ChildProcessTransport.spawn('aider', options);
+
+    case 'command':
+      return spawnCommandWrapper(config.get<string[]>('transportCommand', []), options);
+
+    case 'scripted':
+      return new ScriptedTransport(
+        loadScript(config.get<string>('transportScript', ''), options),
+        options.args
+      );
+
+    case 'pty':
+    default:
+      return PtyTransport.spawn('aider', options);
+  }
+}
+
+/**
+ * Read a scripted-transport JSON file, relative paths resolving against the session folder
+ */
+function loadScript(
+  scriptPath: string,
+  options: TransportSpawnOptions
+): ScriptedTransportScript | undefined {
+  if (!scriptPath) {
+    return undefined;
+  }
+
+  const resolved = path.resolve(options.cwd, scriptPath);
+  return JSON.parse(fs.readFileSync(resolved, 'utf8')) as ScriptedTransportScript;
+}
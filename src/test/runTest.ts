@@ -0,0 +1,21 @@
+/**
+ * Test runner - downloads VS Code and runs the suite inside its extension host
+ */
+
+import * as path from 'path';
+import { runTests } from 'vscode-test';
+
+async function main(): Promise<void> {
+  try {
+    // Compiled to out/test/runTest.js; the extension root holds package.json
+    const extensionDevelopmentPath = path.resolve(__dirname, '../../');
+    const extensionTestsPath = path.resolve(__dirname, './suite/index');
+
+    await runTests({ extensionDevelopmentPath, extensionTestsPath });
+  } catch (error) {
+    console.error('❌ Failed to run tests:', error);
+    process.exit(1);
+  }
+}
+
+main();
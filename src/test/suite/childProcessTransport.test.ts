@@ -0,0 +1,57 @@
+/**
+ * ChildProcessTransport against a real child process that closes its input
+ */
+
+import * as assert from 'assert';
+import * as os from 'os';
+import { TransportSpawnOptions } from '../../types';
+import { ChildProcessTransport } from '../../services/transports/ChildProcessTransport';
+
+// Node stands in for Aider: it closes stdin, says so and stays alive until killed
+const CLOSE_STDIN =
+  'require("fs").closeSync(0); console.log("closed"); setInterval(() => {}, 1000)';
+
+function spawnOptions(script: string): TransportSpawnOptions {
+  return {
+    // The transport appends Aider's headless flags; "--" keeps node from reading them
+    args: ['-e', script, '--'],
+    cwd: os.tmpdir(),
+    env: process.env as Record<string, string>,
+    cols: 80,
+    rows: 24
+  };
+}
+
+suite('ChildProcessTransport', () => {
+  test('reports EPIPE from writing to a closed pipe instead of throwing', async () => {
+    const transport = await ChildProcessTransport.spawn(
+      process.execPath,
+      spawnOptions(CLOSE_STDIN)
+    );
+    await new Promise<void>(resolve =>
+      transport.onData(data => data.includes('closed') && resolve())
+    );
+
+    const reported = new Promise<Error>(resolve => transport.onError(resolve));
+    transport.write('/exit\r');
+
+    try {
+      assert.match((await reported).message, /EPIPE/);
+    } finally {
+      transport.kill('SIGKILL');
+    }
+  });
+
+  test('reports a write after the process exited', async () => {
+    const transport = await ChildProcessTransport.spawn(
+      process.execPath,
+      spawnOptions('process.exit(0)')
+    );
+    await new Promise<void>(resolve => transport.onExit(() => resolve()));
+
+    const reported = new Promise<Error>(resolve => transport.onError(resolve));
+    transport.write('/exit\r');
+
+    assert.match((await reported).message, /no longer reading/);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Waiting on inline edit turns in EditReviewService
+ */
+
+import * as assert from 'assert';
+import * as os from 'os';
+import { AiderSession } from '../../types';
+import { EditReviewService } from '../../services/EditReviewService';
+
+function fakeSession(id: string): AiderSession {
+  return {
+    id,
+    workspaceFolder: os.tmpdir(),
+    chatFiles: { editable: [], readOnly: [] }
+  } as unknown as AiderSession;
+}
+
+suite('EditReviewService', () => {
+  let review: EditReviewService;
+
+  setup(() => {
+    review = new EditReviewService();
+  });
+
+  teardown(() => review.dispose());
+
+  test('resolves the waiters of two identical prompts with their own turns', async () => {
+    const session = fakeSession('session-1');
+    const first = review.reserveInlineTurn();
+    const second = review.reserveInlineTurn();
+    const firstDone = review.waitForTurn(session.id, first);
+    const secondDone = review.waitForTurn(session.id, second);
+
+    review.beginTurn(session, 'Edit app.ts: add logging.', first);
+    review.processEvent(session, { type: 'prompt', text: '> ', mode: '' });
+    review.beginTurn(session, 'Edit app.ts: add logging.', second);
+    review.processEvent(session, { type: 'prompt', text: '> ', mode: '' });
+
+    assert.strictEqual((await firstDone).id, first);
+    assert.strictEqual((await secondDone).id, second);
+    assert.strictEqual((await secondDone).origin, 'inline');
+  });
+
+  test('rejects the waiter of a turn that was never sent when the session exits', async () => {
+    const session = fakeSession('session-1');
+    const turnId = review.reserveInlineTurn();
+    const done = review.waitForTurn(session.id, turnId);
+
+    review.endSession(session.id);
+
+    await assert.rejects(done, /exited/);
+  });
+
+  test('resolves an open turn when the session exits mid-turn', async () => {
+    const session = fakeSession('session-1');
+    const turnId = review.reserveInlineTurn();
+    const done = review.waitForTurn(session.id, turnId);
+
+    review.beginTurn(session, 'Edit app.ts: add logging.', turnId);
+    review.endSession(session.id);
+
+    assert.strictEqual((await done).id, turnId);
+  });
+
+  test('rejects an abandoned turn', async () => {
+    const turnId = review.reserveInlineTurn();
+    const done = review.waitForTurn('session-1', turnId);
+
+    review.abandonTurn(turnId, 'The edit was canceled before it was sent');
+
+    await assert.rejects(done, /canceled/);
+  });
+});
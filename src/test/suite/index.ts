@@ -0,0 +1,25 @@
+/**
+ * Test suite entry point - loaded by the extension host, runs every *.test.js with Mocha
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Mocha from 'mocha';
+
+export function run(): Promise<void> {
+  const mocha = new Mocha({ ui: 'tdd', color: true, timeout: 10000 });
+
+  fs.readdirSync(__dirname)
+    .filter(file => file.endsWith('.test.js'))
+    .forEach(file => mocha.addFile(path.resolve(__dirname, file)));
+
+  return new Promise((resolve, reject) => {
+    mocha.run(failures => {
+      if (failures > 0) {
+        reject(new Error(`${failures} tests failed.`));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Following /model in ModelSwitchService
+ */
+
+import * as assert from 'assert';
+import { AiderOutputEvent, AiderSession } from '../../types';
+import { ModelSwitchService } from '../../services/ModelSwitchService';
+import { SessionManager } from '../../services/SessionManager';
+
+// Stand-in for SessionManager that replays output and exits to the service
+class FakeSessionManager {
+  private outputCallbacks: ((session: AiderSession, event: AiderOutputEvent) => void)[] = [];
+  private exitCallbacks: ((session: AiderSession) => void)[] = [];
+
+  onSessionOutput(callback: (session: AiderSession, event: AiderOutputEvent) => void): void {
+    this.outputCallbacks.push(callback);
+  }
+
+  onSessionExit(callback: (session: AiderSession) => void): void {
+    this.exitCallbacks.push(callback);
+  }
+
+  emit(session: AiderSession, event: AiderOutputEvent): void {
+    this.outputCallbacks.forEach(callback => callback(session, event));
+  }
+}
+
+suite('ModelSwitchService', () => {
+  const session = { id: 'session-1' } as AiderSession;
+  let sessions: FakeSessionManager;
+  let switches: ModelSwitchService;
+
+  setup(() => {
+    sessions = new FakeSessionManager();
+    switches = new ModelSwitchService(sessions as unknown as SessionManager);
+  });
+
+  teardown(() => switches.dispose());
+
+  test('resolves with the model Aider announces after the /model echo', async () => {
+    const switched = switches.waitForSwitch(session.id, 'gpt-4o');
+
+    // A prompt before the echo belongs to a message queued ahead of /model
+    sessions.emit(session, { type: 'prompt', text: '> ', mode: '' });
+    sessions.emit(session, { type: 'input', text: '/model gpt-4o' });
+    sessions.emit(session, {
+      type: 'model',
+      text: 'Main model: gpt-4o with diff edit format',
+      model: 'gpt-4o',
+      editFormat: 'diff'
+    });
+    sessions.emit(session, { type: 'prompt', text: '> ', mode: '' });
+
+    assert.deepStrictEqual(await switched, { type: 'switched', model: 'gpt-4o' });
+  });
+
+  test('resolves as canceled and frees the model when the queued /model is canceled', async () => {
+    const switched = switches.waitForSwitch(session.id, 'gpt-4o');
+    assert.strictEqual(switches.pendingModel(session.id), 'gpt-4o');
+
+    switches.cancelSwitch(session.id);
+
+    assert.deepStrictEqual(await switched, { type: 'canceled' });
+    assert.strictEqual(switches.pendingModel(session.id), undefined);
+  });
+});
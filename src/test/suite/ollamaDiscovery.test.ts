@@ -0,0 +1,140 @@
+/**
+ * OllamaDiscoveryService against a small local stand-in for the Ollama server
+ */
+
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AiderConfigFile, EffectiveAiderConfig, ModelConfig } from '../../types';
+import { ENV_VARS } from '../../config/constants';
+import { ModelCatalogService } from '../../services/ModelCatalogService';
+import { OllamaDiscoveryService } from '../../services/OllamaDiscoveryService';
+import { resolveOllamaApiBase } from '../../utils/ollama';
+
+const TAGS = {
+  models: [
+    {
+      name: 'qwen2.5-coder:7b',
+      size: 4683087332,
+      modified_at: '2024-11-12T10:00:00Z',
+      details: { family: 'qwen2', parameter_size: '7.6B', quantization_level: 'Q4_K_M' }
+    },
+    { name: 'nomic-embed-text:latest', size: 274302450, details: { family: 'nomic-bert' } }
+  ]
+};
+const RUNNING = { models: [{ name: 'qwen2.5-coder:7b' }] };
+
+// Records what discovery hands to the catalog
+class RecordingCatalog {
+  discovered: ModelConfig[] = [];
+
+  setDiscoveredModels(_source: string, models: ModelConfig[]): void {
+    this.discovered = models;
+  }
+}
+
+function startStandIn(): Promise<http.Server> {
+  const server = http.createServer((request, response) => {
+    const body = { '/api/tags': TAGS, '/api/ps': RUNNING }[request.url || ''];
+    response.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body || { error: 'not found' }));
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+suite('OllamaDiscoveryService', () => {
+  const previousApiBase = process.env[ENV_VARS.OLLAMA_API_BASE];
+  let server: http.Server;
+  let catalog: RecordingCatalog;
+  let discovery: OllamaDiscoveryService;
+
+  setup(async () => {
+    server = await startStandIn();
+    const { port } = server.address() as AddressInfo;
+    process.env[ENV_VARS.OLLAMA_API_BASE] = `http://127.0.0.1:${port}`;
+    catalog = new RecordingCatalog();
+    discovery = new OllamaDiscoveryService(catalog as unknown as ModelCatalogService);
+  });
+
+  teardown(done => {
+    discovery.dispose();
+    if (previousApiBase === undefined) {
+      delete process.env[ENV_VARS.OLLAMA_API_BASE];
+    } else {
+      process.env[ENV_VARS.OLLAMA_API_BASE] = previousApiBase;
+    }
+    server.close(() => done());
+  });
+
+  test('maps the installed models with their size and family', async () => {
+    const models = await discovery.refresh();
+
+    assert.deepStrictEqual(
+      models.map(model => [model.name, model.size, model.family]),
+      [
+        ['qwen2.5-coder:7b', 4683087332, 'qwen2'],
+        ['nomic-embed-text:latest', 274302450, 'nomic-bert']
+      ]
+    );
+    assert.strictEqual(models[0].quantization, 'Q4_K_M');
+    assert.strictEqual(discovery.isLoaded('qwen2.5-coder:7b'), true);
+    assert.strictEqual(discovery.isLoaded('nomic-embed-text:latest'), false);
+    assert.deepStrictEqual(catalog.discovered[0], {
+      id: 'ollama/qwen2.5-coder:7b',
+      displayName: 'qwen2.5-coder:7b (4.7 GB, qwen2)'
+    });
+  });
+
+  test('rejects and clears the models when the endpoint is unreachable', async () => {
+    await discovery.refresh();
+    // A port that was just free: nothing answers there
+    const closed = await startStandIn();
+    const { port } = closed.address() as AddressInfo;
+    await new Promise<void>(resolve => closed.close(() => resolve()));
+    process.env[ENV_VARS.OLLAMA_API_BASE] = `http://127.0.0.1:${port}`;
+
+    await assert.rejects(discovery.refresh(), /ECONNREFUSED/);
+    assert.ok(discovery.error);
+    assert.deepStrictEqual(discovery.models, []);
+    assert.deepStrictEqual(catalog.discovered, []);
+  });
+});
+
+suite('resolveOllamaApiBase', () => {
+  const source: AiderConfigFile = { scope: 'workspace', path: '.aider.conf.yml', exists: true };
+  const previousApiBase = process.env[ENV_VARS.OLLAMA_API_BASE];
+
+  function configWith(setEnv: unknown): EffectiveAiderConfig {
+    return {
+      cwd: '.',
+      configFiles: [source],
+      envFiles: [],
+      options: [{ key: 'set-env', value: setEnv, source, overridden: [] }],
+      env: [
+        { key: ENV_VARS.OLLAMA_API_BASE, value: 'http://env-file:11434', source, overridden: [] }
+      ]
+    };
+  }
+
+  teardown(() => {
+    if (previousApiBase === undefined) {
+      delete process.env[ENV_VARS.OLLAMA_API_BASE];
+    } else {
+      process.env[ENV_VARS.OLLAMA_API_BASE] = previousApiBase;
+    }
+  });
+
+  test('prefers set-env over .env files and the environment, as Aider does', () => {
+    process.env[ENV_VARS.OLLAMA_API_BASE] = 'http://environment:11434';
+
+    assert.strictEqual(
+      resolveOllamaApiBase(configWith(['OPENAI_API_BASE=x', 'OLLAMA_API_BASE=http://list:11434'])),
+      'http://list:11434'
+    );
+    assert.strictEqual(
+      resolveOllamaApiBase(configWith({ OLLAMA_API_BASE: 'http://mapping:11434' })),
+      'http://mapping:11434'
+    );
+    assert.strictEqual(resolveOllamaApiBase(configWith(undefined)), 'http://env-file:11434');
+  });
+});
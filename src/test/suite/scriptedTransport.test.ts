@@ -0,0 +1,141 @@
+/**
+ * Drives AiderProcess and AiderOutputParser through the scripted transport
+ */
+
+import * as assert from 'assert';
+import * as os from 'os';
+import { AiderOutputEvent, ScriptedTransportScript } from '../../types';
+import { AiderProcess } from '../../services/AiderProcess';
+import { ScriptedTransport } from '../../services/transports';
+
+const SCRIPT: ScriptedTransportScript = {
+  banner: 'Aider v0.0.0 (scripted transport)\nMain model: scripted with diff edit format\n',
+  prompt: '> ',
+  responses: [
+    { match: '^/exit$', output: '', exitCode: 0 },
+    {
+      match: '^change (.+)$',
+      output:
+        'Changing $1 now.\n\nApplied edit to $1\nCommit 1a2b3c4 feat: change $1\nTokens: 1.2k sent, 80 received.\n'
+    },
+    { match: '.*', output: 'Scripted reply to: $0\n' }
+  ]
+};
+
+// Keeps what AiderProcess writes, as Aider's terminal would receive it
+class RecordingTransport extends ScriptedTransport {
+  readonly writes: string[] = [];
+
+  write(data: string): void {
+    this.writes.push(data);
+    super.write(data);
+  }
+}
+
+suite('ScriptedTransport', () => {
+  let aider: AiderProcess;
+  let transport: RecordingTransport;
+  let events: AiderOutputEvent[];
+
+  setup(async () => {
+    events = [];
+    aider = new AiderProcess(async () => (transport = new RecordingTransport(SCRIPT)));
+    aider.onOutputEvent(event => events.push(event));
+    await aider.startWithSize('scripted', os.tmpdir(), 80, 24);
+  });
+
+  teardown(async () => {
+    await aider.stop();
+    aider.dispose();
+  });
+
+  test('becomes ready at the first prompt and reports the model', async () => {
+    await aider.whenReady(2000);
+
+    assert.strictEqual(aider.isReady, true);
+    const model = events.find(event => event.type === 'model');
+    assert.deepStrictEqual(model?.type === 'model' && [model.model, model.editFormat], [
+      'scripted',
+      'diff'
+    ]);
+  });
+
+  test('parses the reply, applied edit and commit of a turn', async () => {
+    await aider.whenReady(2000);
+    events = [];
+
+    aider.sendMessage('change src/app.ts');
+    await nextPrompt(aider);
+
+    assert.deepStrictEqual(
+      events.map(event => event.type),
+      ['input', 'assistant', 'appliedEdit', 'commit', 'tokens', 'prompt']
+    );
+    const edit = events.find(event => event.type === 'appliedEdit');
+    assert.strictEqual(edit?.type === 'appliedEdit' && edit.file, 'src/app.ts');
+    const commit = events.find(event => event.type === 'commit');
+    assert.deepStrictEqual(commit?.type === 'commit' && [commit.hash, commit.message], [
+      '1a2b3c4',
+      'feat: change src/app.ts'
+    ]);
+  });
+
+  test('sends tabs as spaces so they do not trigger completion', async () => {
+    await aider.whenReady(2000);
+    events = [];
+
+    aider.sendMessage('if x:\tok');
+    await nextPrompt(aider);
+
+    const input = events.find(event => event.type === 'input');
+    assert.strictEqual(input?.text, 'if x:   ok');
+  });
+
+  test('writes a single-line message as typed', async () => {
+    await aider.whenReady(2000);
+
+    aider.sendMessage('What does app.ts do?');
+    await nextPrompt(aider);
+
+    assert.deepStrictEqual(transport.writes, ['What does app.ts do?\r']);
+  });
+
+  test('wraps a multi-line chat message in one {aider ... aider} block', async () => {
+    await aider.whenReady(2000);
+    events = [];
+
+    aider.sendMessage('Why does this fail?\r\nconst a = 1;\nconst b = a();');
+    await nextPrompt(aider);
+
+    assert.deepStrictEqual(transport.writes, [
+      '{aider\rWhy does this fail?\rconst a = 1;\rconst b = a();\raider}\r'
+    ]);
+    // Answered once, as one message, not line by line
+    const reply = events
+      .filter(event => event.type === 'assistant')
+      .map(event => event.text)
+      .join('\n');
+    assert.strictEqual(reply.split('Scripted reply to:').length - 1, 1);
+    assert.ok(reply.includes('const b = a();'));
+  });
+
+  test('reports the exit of the process', async () => {
+    await aider.whenReady(2000);
+
+    const exited = new Promise<number>(resolve => aider.onExit(info => resolve(info.exitCode)));
+    aider.sendMessage('/exit');
+
+    assert.strictEqual(await exited, 0);
+    assert.strictEqual(aider.isRunning, false);
+  });
+});
+
+function nextPrompt(aider: AiderProcess): Promise<void> {
+  return new Promise(resolve =>
+    aider.onOutputEvent(event => {
+      if (event.type === 'prompt') {
+        resolve();
+      }
+    })
+  );
+}
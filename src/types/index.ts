@@ -4,12 +4,14 @@
  */
 
 import { ExtensionContext } from 'vscode';
+import { ChatFileTracker } from '../services/ChatFileTracker';
 
 // WebView message types
 export interface WebViewMessage {
   command: string;
   text?: string;
   model?: string;
+  sessionId?: string;
 }
 
 export interface SendToAiderMessage extends WebViewMessage {
@@ -49,7 +51,10 @@ export interface ClearTerminalMessage extends WebViewMessage {
 export interface ShowInteractivePromptMessage extends WebViewMessage {
   command: 'showInteractivePrompt';
   promptText: string;
-  options: string[];
+  promptType: AiderPromptType;
+  subject?: string;
+  options: PromptOption[];
+  defaultKey?: string;
 }
 
 export interface HideInteractivePromptMessage extends WebViewMessage {
@@ -58,8 +63,51 @@ export interface HideInteractivePromptMessage extends WebViewMessage {
 
 export interface InteractiveResponseMessage extends WebViewMessage {
   command: 'interactiveResponse';
+  // Option key to type ('y', 'n', 'a'...; empty accepts the default)
   response: string;
   originalPrompt?: string;
+  promptType?: AiderPromptType;
+  remember?: boolean;
+}
+
+export interface SessionActionMessage extends WebViewMessage {
+  command:
+    | 'switchSession'
+    | 'startSession'
+    | 'stopSession'
+    | 'restartSession'
+    | 'interruptSession'
+    | 'renameSession'
+    | 'closeSession';
+  sessionId: string;
+}
+
+export interface QueuedMessageActionMessage extends WebViewMessage {
+  command: 'editQueuedMessage' | 'cancelQueuedMessage';
+  sessionId: string;
+  messageId: string;
+}
+
+export interface QueueUpdatedMessage extends WebViewMessage {
+  command: 'queueUpdated';
+  sessionId: string;
+  messages: QueuedMessage[];
+}
+
+export interface SelectModelMessage extends WebViewMessage {
+  command: 'selectModel';
+  model: string;
+}
+
+export interface ModelsUpdatedMessage extends WebViewMessage {
+  command: 'modelsUpdated';
+  models: ModelConfig[];
+}
+
+export interface SessionsUpdatedMessage extends WebViewMessage {
+  command: 'sessionsUpdated';
+  sessions: AiderSessionInfo[];
+  activeSessionId?: string;
 }
 
 // Process-related types
@@ -76,12 +124,71 @@ export interface ProcessSpawnOptions {
   cwd: string;
 }
 
+// Interactive prompt types
+export type AiderPromptType =
+  | 'addFile'
+  | 'addUrl'
+  | 'createFile'
+  | 'runShell'
+  | 'addOutput'
+  | 'fixLint'
+  | 'fixTests'
+  | 'editFile'
+  | 'openUrl'
+  | 'continue'
+  | 'confirmation';
+
+export interface PromptOption {
+  key: string;
+  label: string;
+}
+
+export interface AiderPrompt {
+  type: AiderPromptType;
+  text: string;
+  // Preceding output line the question is about (file, URL, command)
+  subject?: string;
+  options: PromptOption[];
+  defaultKey?: string;
+}
+
+// How a prompt type is answered: shown to the user, or answered automatically
+export type PromptPolicy = 'ask' | 'yes' | 'no' | 'default';
+
+// Structured output events parsed from the Aider PTY stream
+export type AiderOutputEvent =
+  | { type: 'assistant'; text: string }
+  | { type: 'editBlock'; text: string; file: string; search: string; replace: string }
+  | { type: 'appliedEdit'; text: string; file: string }
+  | { type: 'commit'; text: string; hash: string; message: string }
+  | {
+      type: 'tokens';
+      text: string;
+      sent: number;
+      received: number;
+      messageCost?: number;
+      sessionCost?: number;
+    }
+  | { type: 'warning'; text: string }
+  | { type: 'model'; text: string; model: string; editFormat: string }
+  | { type: 'prompt'; text: string; mode: string }
+  | { type: 'confirm'; text: string; prompt: AiderPrompt }
+  | { type: 'input'; text: string }
+  | { type: 'info'; text: string };
+
 // Configuration types
 export interface ModelConfig {
   id: string;
   displayName: string;
 }
 
+// Where a catalog model came from, in order of precedence
+export type ModelSource = 'settings' | 'aiderConfig' | 'discovered' | 'builtin';
+
+export interface CatalogModel extends ModelConfig {
+  source: ModelSource;
+}
+
 export interface TerminalConfig {
   name: string;
   cols: number;
@@ -94,6 +201,50 @@ export interface OllamaConfig {
   timeout: number;
 }
 
+// A model installed on the Ollama server, from /api/tags
+export interface OllamaModel {
+  name: string;
+  size: number;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+  modifiedAt?: Date;
+}
+
+// Where Aider looks for .aider.conf.yml and .env, in load order; later files win
+export type AiderConfigScope = 'home' | 'gitRoot' | 'workspace' | 'envFile';
+
+export interface AiderConfigFile {
+  scope: AiderConfigScope;
+  path: string;
+  exists: boolean;
+  error?: string;
+}
+
+export interface AiderConfigEntry {
+  key: string;
+  value: unknown;
+  source: AiderConfigFile;
+  // Files that set the key too but were loaded earlier
+  overridden: AiderConfigFile[];
+}
+
+export interface EffectiveAiderConfig {
+  cwd: string;
+  configFiles: AiderConfigFile[];
+  envFiles: AiderConfigFile[];
+  options: AiderConfigEntry[];
+  env: AiderConfigEntry[];
+}
+
+// One line of the progress Ollama streams while pulling a model
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
 // State management types
 export interface ConversationEntry {
   type: 'user' | 'aider' | 'system';
@@ -101,6 +252,140 @@ export interface ConversationEntry {
   timestamp: Date;
 }
 
+// Session management types
+export interface AiderSession {
+  readonly id: string;
+  name: string;
+  model: string;
+  workspaceFolder: string;
+  readonly process: IAiderProcess;
+  readonly chatFiles: ChatFileTracker;
+  conversationHistory: ConversationEntry[];
+  terminalSize?: { cols: number; rows: number };
+  readonly createdAt: Date;
+  pendingStart: boolean;
+  // Set when the user (not a crash) stopped the process
+  stopRequested: boolean;
+}
+
+// Serializable session summary sent to the webview tab bar
+export interface AiderSessionInfo {
+  id: string;
+  name: string;
+  model: string;
+  workspaceFolder: string;
+  isRunning: boolean;
+  isReady: boolean;
+}
+
+// Ways a file can be put into or taken out of a session's chat
+export type ChatFileAction = 'add' | 'readOnly' | 'drop';
+
+// One-shot, non-interactive Aider run
+export interface QuickAskRequest {
+  model: string;
+  workspaceFolder: string;
+  message: string;
+  // Files added to the chat, relative to workspaceFolder
+  files: string[];
+}
+
+export interface QuickAskResult {
+  exitCode: number;
+  // What Aider answered, without its startup banner and token report
+  reply: string;
+  // Everything Aider printed
+  output: string;
+  // Files Aider reported "Applied edit to ..." for
+  editedFiles: string[];
+}
+
+// Review state of one file Aider edited during a turn
+export type EditReviewStatus = 'pending' | 'accepted' | 'reverted';
+
+export interface EditReviewFile {
+  // Path as reported by Aider, relative to the turn's workspaceFolder
+  path: string;
+  status: EditReviewStatus;
+}
+
+// Edits Aider applied in answer to one message
+export interface EditTurn {
+  id: string;
+  sessionId: string;
+  workspaceFolder: string;
+  message: string;
+  // Inline edits are shown in the editor instead of the review diff
+  origin: 'chat' | 'inline';
+  startedAt: Date;
+  files: EditReviewFile[];
+  // Set when Aider auto-committed the edits
+  commitHash?: string;
+}
+
+// Commit Aider made during a session
+export interface AiderCommit {
+  hash: string;
+  shortHash: string;
+  message: string;
+  author: string;
+  committedAt: Date;
+  sessionId: string;
+  workspaceFolder: string;
+}
+
+// How a /model switch ended: Aider announced the model, did not confirm it, or the queued
+// /model was canceled before it was sent
+export type ModelSwitchResult =
+  { type: 'switched'; model: string } | { type: 'unconfirmed' } | { type: 'canceled' };
+
+// Captured output of a command run outside Aider
+export interface CommandOutput {
+  exitCode: number;
+  output: string;
+}
+
+// Outcome of Aider's /test, told apart by whether it added the output to the chat
+export interface TestRunResult {
+  passed: boolean;
+  output: string;
+}
+
+// What a CodeLens above a function, method or class asks Aider to do
+export type SymbolAction = 'ask' | 'refactor' | 'writeTests';
+
+// Zero-based, inclusive line range
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+// Lines that replaced `removed` in a file's new content, starting at line `start`
+export interface DiffHunk {
+  start: number;
+  added: number;
+  removed: string[];
+}
+
+// Lines of one file that Aider changed in a turn
+export interface AiderChange {
+  turnId: string;
+  sessionId: string;
+  fsPath: string;
+  message: string;
+  changedAt: Date;
+  ranges: LineRange[];
+}
+
+// Prompt typed before Aider could accept it, waiting to be sent
+export interface QueuedMessage {
+  id: string;
+  text: string;
+  queuedAt: Date;
+  // Turn id reserved for an inline edit, kept when the text is edited in the queue
+  turnId?: string;
+}
+
 export interface ExtensionState {
   conversationHistory: ConversationEntry[];
   currentModel: string;
@@ -116,10 +401,13 @@ export interface AiderError extends Error {
 // Aider process interface
 export interface IAiderProcess {
   readonly isRunning: boolean;
+  readonly isReady: boolean;
   readonly currentModel: string;
 
   startWithSize(model: string, workspaceFolder: string, cols: number, rows: number): Promise<void>;
   stop(): Promise<void>;
+  whenReady(timeoutMs?: number): Promise<void>;
+  interrupt(timeoutMs?: number): Promise<boolean>;
   sendMessage(message: string): void;
   sendRawData(data: string): void;
   resize(cols: number, rows: number): void;
@@ -127,7 +415,44 @@ export interface IAiderProcess {
   onData(callback: (data: string) => void): void;
   onExit(callback: (exitInfo: ProcessExitInfo) => void): void;
   onError(callback: (error: AiderError) => void): void;
-  onPrompt(callback: (prompt: { text: string; options: string[]; type: string }) => void): void;
+  onPrompt(callback: (prompt: AiderPrompt) => void): void;
+  onOutputEvent(callback: (event: AiderOutputEvent) => void): void;
+  onReady(callback: () => void): void;
+  dispose(): void;
+}
+
+// How the Aider process is launched and talked to
+export type AiderTransportKind = 'pty' | 'childProcess' | 'command' | 'scripted';
+
+export interface TransportSpawnOptions {
+  // Aider CLI args (without the executable)
+  args: string[];
+  cwd: string;
+  env: Record<string, string>;
+  cols: number;
+  rows: number;
+}
+
+// A running Aider process, whatever it runs in
+export interface IAiderTransport {
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  kill(signal?: 'SIGINT' | 'SIGTERM' | 'SIGKILL'): void;
+  onData(callback: (data: string) => void): void;
+  onExit(callback: (exitInfo: ProcessExitInfo) => void): void;
+  // Failures outside of spawning, e.g. writing to a pipe Aider has already closed
+  onError?(callback: (error: Error) => void): void;
+}
+
+export type TransportFactory = (options: TransportSpawnOptions) => Promise<IAiderTransport>;
+
+// Canned conversation replayed by the scripted transport
+export interface ScriptedTransportScript {
+  banner: string;
+  prompt: string;
+  delayMs?: number;
+  // Tried in order; $0..$9 in output are replaced with the match groups
+  responses: { match: string; output: string; exitCode?: number }[];
 }
 
 // WebView provider interface
@@ -0,0 +1,279 @@
+/**
+ * Aider config utilities for Aider VS Code Extension
+ * Loads .aider.conf.yml and .env the way Aider does and turns the options into CLI args
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import {
+  AiderConfigEntry,
+  AiderConfigFile,
+  AiderConfigScope,
+  EffectiveAiderConfig
+} from '../types';
+
+const CONFIG_FILE_NAME = '.aider.conf.yml';
+const ENV_FILE_NAME = '.env';
+
+// Options the extension sets itself, or that only the extension reads
+const EXTENSION_OWNED_KEYS = new Set([
+  'model',
+  'gui',
+  'browser',
+  'copy-paste',
+  'pretty',
+  'config',
+  'env-file',
+  'message',
+  'message-file',
+  'vscode-extra-models'
+]);
+
+// Flag-only options have no --no- form; false is already their default
+const FLAG_ONLY_KEYS = new Set([
+  'show-diffs',
+  'yes-always',
+  'verbose',
+  'dark-mode',
+  'light-mode',
+  'vim',
+  'show-repo-map',
+  'show-prompts',
+  'apply-clipboard-edits',
+  'just-check-update',
+  'upgrade'
+]);
+
+const SECRET_NAME_PATTERN = /api[-_]?key|[-_]key$|[-_]token$|secret|password/i;
+
+/**
+ * The closest folder at or above cwd that holds a .git entry
+ */
+export function findGitRoot(cwd: string): string | undefined {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    if (fs.existsSync(path.join(dir, '.git'))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Load the config files and .env files Aider would read when started in cwd
+ * Like Aider, home is loaded first, then the git root, then cwd, and later values win
+ */
+export function loadAiderConfig(cwd: string): EffectiveAiderConfig {
+  const folders = searchFolders(cwd);
+
+  const configFiles = folders.map(({ scope, folder }) =>
+    describeFile(scope, path.join(folder, CONFIG_FILE_NAME))
+  );
+  const options = mergeFiles(configFiles, readYamlFile);
+
+  const envFiles = folders.map(({ scope, folder }) =>
+    describeFile(scope, path.join(folder, ENV_FILE_NAME))
+  );
+  // An env-file option names one more .env, loaded last
+  const envFileOption = options.find(entry => entry.key === 'env-file');
+  if (typeof envFileOption?.value === 'string') {
+    const envFile = describeFile('envFile', path.resolve(cwd, envFileOption.value));
+    if (!envFiles.some(file => file.path === envFile.path)) {
+      envFiles.push(envFile);
+    }
+  }
+  const env = mergeFiles(envFiles, readEnvFile);
+
+  return { cwd, configFiles, envFiles, options, env };
+}
+
+/**
+ * Value of one option in the effective config
+ */
+export function getConfigValue(config: EffectiveAiderConfig, key: string): unknown {
+  return config.options.find(entry => entry.key === key)?.value;
+}
+
+/**
+ * Value a set-env option gives an environment variable; Aider applies it over the environment
+ * set-env holds NAME=VALUE pairs, as a list, a single pair or a mapping
+ */
+export function getSetEnvValue(config: EffectiveAiderConfig, name: string): string | undefined {
+  const setEnv = getConfigValue(config, 'set-env');
+  if (setEnv !== null && typeof setEnv === 'object' && !Array.isArray(setEnv)) {
+    const value = (setEnv as Record<string, unknown>)[name];
+    return value === undefined || value === null ? undefined : String(value);
+  }
+
+  const pairs = Array.isArray(setEnv) ? setEnv : setEnv === undefined ? [] : [setEnv];
+  // Like repeated --set-env flags, the last pair for a name wins
+  let found: string | undefined;
+  pairs.forEach(pair => {
+    const text = String(pair);
+    const separator = text.indexOf('=');
+    if (separator > 0 && text.slice(0, separator).trim() === name) {
+      found = text.slice(separator + 1).trim();
+    }
+  });
+  return found;
+}
+
+/**
+ * Turn the config options into Aider CLI args, leaving out the ones the extension controls
+ * true becomes --key, false --no-key, lists repeat the flag and maps become KEY=VALUE pairs
+ */
+export function configToArgs(options: AiderConfigEntry[]): string[] {
+  const args: string[] = [];
+
+  options
+    .filter(entry => !EXTENSION_OWNED_KEYS.has(entry.key))
+    .forEach(({ key, value }) => {
+      const flag = `--${key}`;
+      if (value === null || value === undefined) {
+        return;
+      }
+      if (typeof value === 'boolean') {
+        if (value) {
+          args.push(flag);
+        } else if (!FLAG_ONLY_KEYS.has(key)) {
+          args.push(`--no-${key}`);
+        }
+      } else if (Array.isArray(value)) {
+        value.forEach(item => args.push(flag, String(item)));
+      } else if (typeof value === 'object') {
+        Object.entries(value as Record<string, unknown>).forEach(([name, item]) =>
+          args.push(flag, `${name}=${item}`)
+        );
+      } else {
+        args.push(flag, String(value));
+      }
+    });
+
+  return args;
+}
+
+/**
+ * Whether an option or variable name holds a credential that must not be shown or logged
+ */
+export function isSecretName(name: string): boolean {
+  return SECRET_NAME_PATTERN.test(name);
+}
+
+/**
+ * Copy of CLI args safe to log: values of credential options are masked
+ */
+export function maskSecretArgs(args: string[]): string[] {
+  return args.map((arg, index) => {
+    const previous = args[index - 1];
+    if (previous?.startsWith('--') && isSecretName(previous)) {
+      return '***';
+    }
+    // --api-key provider=KEY and --set-env NAME=VALUE carry the name in the value
+    const pair = arg.match(/^([^=\s]+)=/);
+    if (pair && previous?.startsWith('--') && isSecretName(pair[1])) {
+      return `${pair[1]}=***`;
+    }
+    return arg;
+  });
+}
+
+function searchFolders(cwd: string): { scope: AiderConfigScope; folder: string }[] {
+  const candidates: { scope: AiderConfigScope; folder: string | undefined }[] = [
+    { scope: 'home', folder: os.homedir() },
+    { scope: 'gitRoot', folder: findGitRoot(cwd) },
+    { scope: 'workspace', folder: path.resolve(cwd) }
+  ];
+
+  // A folder is only read once, in its first (lowest precedence) role
+  const seen = new Set<string>();
+  return candidates.filter(
+    (candidate): candidate is { scope: AiderConfigScope; folder: string } => {
+      if (!candidate.folder || seen.has(candidate.folder)) {
+        return false;
+      }
+      seen.add(candidate.folder);
+      return true;
+    }
+  );
+}
+
+function describeFile(scope: AiderConfigScope, filePath: string): AiderConfigFile {
+  return { scope, path: filePath, exists: fs.existsSync(filePath) };
+}
+
+/**
+ * Read each existing file in order; later files override the keys of earlier ones
+ */
+function mergeFiles(
+  files: AiderConfigFile[],
+  read: (filePath: string) => Record<string, unknown>
+): AiderConfigEntry[] {
+  const entries = new Map<string, AiderConfigEntry>();
+
+  files
+    .filter(file => file.exists)
+    .forEach(file => {
+      let values: Record<string, unknown>;
+      try {
+        values = read(file.path);
+      } catch (error) {
+        file.error = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Could not read ${file.path}:`, error);
+        return;
+      }
+
+      Object.entries(values).forEach(([key, value]) => {
+        const previous = entries.get(key);
+        entries.set(key, {
+          key,
+          value,
+          source: file,
+          overridden: previous ? [...previous.overridden, previous.source] : []
+        });
+      });
+    });
+
+  return Array.from(entries.values());
+}
+
+function readYamlFile(filePath: string): Record<string, unknown> {
+  const parsed = yaml.load(fs.readFileSync(filePath, 'utf8'));
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Expected a mapping of option names to values');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function readEnvFile(filePath: string): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  fs.readFileSync(filePath, 'utf8')
+    .split(/\r?\n/)
+    .forEach(line => {
+      const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+      if (!match) {
+        return;
+      }
+
+      let value = match[2];
+      const quoted = value.match(/^(['"])(.*)\1(?:\s+#.*)?$/);
+      if (quoted) {
+        value = quoted[2];
+      } else {
+        // Unquoted values end at an inline comment
+        value = value.replace(/\s+#.*$/, '');
+      }
+      values[match[1]] = value;
+    });
+
+  return values;
+}
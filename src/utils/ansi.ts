@@ -0,0 +1,31 @@
+/**
+ * ANSI utilities for Aider VS Code Extension
+ * Turns raw PTY output into plain text for parsing
+ */
+
+// CSI, OSC and single-character escape sequences emitted by prompt_toolkit and rich
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+// Replies a terminal emulator sends for CPR, DSR and DA queries
+const DEVICE_REPORT_PATTERN = /\x1b\[\d+;\d+R|\x1b\[[03]n|\x1b\[[?>][\d;]*c/g;
+
+/**
+ * Remove ANSI escape sequences and carriage returns from terminal output
+ * @param text Raw terminal output
+ * @returns Plain text
+ */
+export function stripAnsi(text: string): string {
+  return text
+    .replace(ANSI_PATTERN, '')
+    .replace(/\r(?!\n)/g, '\n')
+    .replace(/\r/g, '');
+}
+
+/**
+ * Remove device-status replies from terminal input so only one responder answers
+ * @param input Data emitted by a terminal emulator
+ * @returns Input without CPR/DSR/DA replies
+ */
+export function stripDeviceReports(input: string): string {
+  return input.replace(DEVICE_REPORT_PATTERN, '');
+}
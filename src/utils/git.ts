@@ -0,0 +1,42 @@
+/**
+ * Git utilities for Aider VS Code Extension
+ * Thin wrappers around the git CLI for reading and restoring Aider's commits
+ */
+
+import { execFile } from 'child_process';
+
+/**
+ * Run git in a folder and resolve with its stdout
+ * @param cwd Folder to run git in
+ * @param args Arguments after `git`
+ */
+export function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: 32 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.trim() || error.message));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+/**
+ * Read a file as it was in a commit
+ * @param filePath Path relative to cwd
+ * @returns The content, or null when the file did not exist in that commit
+ */
+export async function showFileAtRevision(
+  cwd: string,
+  revision: string,
+  filePath: string
+): Promise<string | null> {
+  const spec = `${revision}:./${filePath.split('\\').join('/')}`;
+  try {
+    await runGit(cwd, ['cat-file', '-e', spec]);
+  } catch {
+    return null;
+  }
+  return runGit(cwd, ['show', spec]);
+}
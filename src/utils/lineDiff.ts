@@ -0,0 +1,110 @@
+/**
+ * Line diff utilities for Aider VS Code Extension
+ * Finds which lines of a file's new content were added, changed or removed
+ */
+
+import { DiffHunk, LineRange } from '../types';
+
+// Above this many cells the changed block is reported as one hunk instead of diffed
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Compare two versions of a file line by line
+ * @param before Previous content, or null when the file is new
+ * @param after Current content
+ * @returns Hunks in order, positioned on the lines of `after`
+ */
+export function diffHunks(before: string | null, after: string): DiffHunk[] {
+  const newLines = after.split(/\r?\n/);
+  if (before === null) {
+    return [{ start: 0, added: newLines.length, removed: [] }];
+  }
+
+  const oldLines = before.split(/\r?\n/);
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  if (oldMiddle.length === 0 && newMiddle.length === 0) {
+    return [];
+  }
+  if (
+    oldMiddle.length === 0 ||
+    newMiddle.length === 0 ||
+    oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS
+  ) {
+    return [{ start: prefix, added: newMiddle.length, removed: oldMiddle }];
+  }
+
+  return alignedHunks(oldMiddle, newMiddle).map(hunk => ({ ...hunk, start: hunk.start + prefix }));
+}
+
+/**
+ * Ranges of added or changed lines in `after`; deletions alone are not reported
+ */
+export function changedLineRanges(before: string | null, after: string): LineRange[] {
+  return diffHunks(before, after)
+    .filter(hunk => hunk.added > 0)
+    .map(hunk => ({ start: hunk.start, end: hunk.start + hunk.added - 1 }));
+}
+
+/**
+ * Walk a longest common subsequence of `a` and `b`, grouping the lines outside it into hunks
+ */
+function alignedHunks(a: string[], b: string[]): DiffHunk[] {
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+
+    if (!current) {
+      current = { start: j, added: 0, removed: [] };
+      hunks.push(current);
+    }
+    if (
+      j >= b.length ||
+      (i < a.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+    ) {
+      current.removed.push(a[i]);
+      i++;
+    } else {
+      current.added++;
+      j++;
+    }
+  }
+  return hunks;
+}
@@ -0,0 +1,224 @@
+/**
+ * Ollama utilities for Aider VS Code Extension
+ * Thin wrappers around the Ollama REST API at OLLAMA_API_BASE
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { EffectiveAiderConfig, OllamaModel, OllamaPullProgress } from '../types';
+import { EXTENSION_CONFIG, ENV_VARS } from '../config/constants';
+import { getSetEnvValue } from './aiderConfig';
+
+interface OllamaTagsResponse {
+  models?: {
+    name: string;
+    size?: number;
+    modified_at?: string;
+    details?: { family?: string; parameter_size?: string; quantization_level?: string };
+  }[];
+}
+
+/**
+ * The Ollama endpoint Aider is started with
+ * @param config Effective Aider config: its set-env option comes first, then its .env files,
+ * then the environment
+ */
+export function resolveOllamaApiBase(config?: EffectiveAiderConfig): string {
+  const fromSetEnv = config && getSetEnvValue(config, ENV_VARS.OLLAMA_API_BASE);
+  const fromEnvFile = config?.env.find(entry => entry.key === ENV_VARS.OLLAMA_API_BASE)?.value;
+  return (
+    fromSetEnv ||
+    (typeof fromEnvFile === 'string' && fromEnvFile) ||
+    process.env[ENV_VARS.OLLAMA_API_BASE] ||
+    EXTENSION_CONFIG.OLLAMA.DEFAULT_API_BASE
+  );
+}
+
+/**
+ * Send a request to the Ollama API and resolve with the response body
+ * @param apiBase Server URL, e.g. http://localhost:11434
+ * @param apiPath Path under the server, e.g. /api/tags
+ */
+export function requestOllama(
+  apiBase: string,
+  method: string,
+  apiPath: string,
+  body?: unknown
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const request = startRequest(apiBase, method, apiPath, body, reject, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        const status = response.statusCode || 0;
+        if (status < 200 || status >= 300) {
+          reject(new Error(`Ollama returned ${status}: ${readErrorMessage(text)}`));
+          return;
+        }
+        resolve(text);
+      });
+      response.on('error', reject);
+    });
+    request?.setTimeout(EXTENSION_CONFIG.OLLAMA.REQUEST_TIMEOUT_MS, () => {
+      request.destroy(
+        new Error(
+          `No answer from ${apiBase} within ${EXTENSION_CONFIG.OLLAMA.REQUEST_TIMEOUT_MS}ms`
+        )
+      );
+    });
+  });
+}
+
+/**
+ * Models installed on the Ollama server
+ */
+export async function listOllamaModels(apiBase: string): Promise<OllamaModel[]> {
+  const response = JSON.parse(
+    await requestOllama(apiBase, 'GET', '/api/tags')
+  ) as OllamaTagsResponse;
+
+  return (response.models || []).map(model => ({
+    name: model.name,
+    size: model.size || 0,
+    family: model.details?.family,
+    parameterSize: model.details?.parameter_size,
+    quantization: model.details?.quantization_level,
+    modifiedAt: model.modified_at ? new Date(model.modified_at) : undefined
+  }));
+}
+
+/**
+ * Names of the models Ollama has loaded in memory
+ */
+export async function listRunningOllamaModels(apiBase: string): Promise<string[]> {
+  const response = JSON.parse(await requestOllama(apiBase, 'GET', '/api/ps')) as {
+    models?: { name: string }[];
+  };
+  return (response.models || []).map(model => model.name);
+}
+
+/**
+ * Download a model, reporting each progress line Ollama streams back
+ * Downloads take minutes, so there is no timeout; call cancel to stop one
+ */
+export function pullOllamaModel(
+  apiBase: string,
+  name: string,
+  onProgress: (progress: OllamaPullProgress) => void
+): { done: Promise<void>; cancel: () => void } {
+  let request: http.ClientRequest | undefined;
+  const done = new Promise<void>((resolve, reject) => {
+    // Older servers read "name", newer ones "model"
+    request = startRequest(
+      apiBase,
+      'POST',
+      '/api/pull',
+      { model: name, name },
+      reject,
+      response => {
+        let pending = '';
+        let failure: Error | undefined;
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          const lines = (pending + chunk).split('\n');
+          pending = lines.pop() || '';
+          lines
+            .filter(line => line.trim())
+            .forEach(line => {
+              let progress: OllamaPullProgress & { error?: string };
+              try {
+                progress = JSON.parse(line);
+              } catch {
+                failure = new Error(`Unexpected answer from Ollama: ${line}`);
+                return;
+              }
+              if (progress.error) {
+                failure = new Error(progress.error);
+              } else {
+                onProgress(progress);
+              }
+            });
+        });
+        response.on('end', () => {
+          const status = response.statusCode || 0;
+          if (status < 200 || status >= 300) {
+            reject(failure || new Error(`Ollama returned ${status}: ${readErrorMessage(pending)}`));
+          } else if (failure) {
+            reject(failure);
+          } else {
+            resolve();
+          }
+        });
+        response.on('error', reject);
+      }
+    );
+  });
+
+  return {
+    done,
+    cancel: () => request?.destroy(new Error(`Pull of ${name} cancelled`))
+  };
+}
+
+/**
+ * Remove a model from the Ollama server
+ */
+export async function deleteOllamaModel(apiBase: string, name: string): Promise<void> {
+  await requestOllama(apiBase, 'DELETE', '/api/delete', { model: name, name });
+}
+
+/**
+ * Human-readable size, e.g. "8.9 GB"
+ */
+export function formatModelSize(bytes: number): string {
+  if (bytes >= 1e9) {
+    return `${(bytes / 1e9).toFixed(1)} GB`;
+  }
+  return `${Math.round(bytes / 1e6)} MB`;
+}
+
+/**
+ * Open a request, reporting an invalid URL or connection failure through onError
+ */
+function startRequest(
+  apiBase: string,
+  method: string,
+  apiPath: string,
+  body: unknown,
+  onError: (error: Error) => void,
+  onResponse: (response: http.IncomingMessage) => void
+): http.ClientRequest | undefined {
+  let url: URL;
+  try {
+    url = new URL(`${apiBase.replace(/\/+$/, '')}${apiPath}`);
+  } catch {
+    onError(new Error(`Invalid Ollama URL: ${apiBase}`));
+    return undefined;
+  }
+
+  const payload = body === undefined ? undefined : JSON.stringify(body);
+  const client = url.protocol === 'https:' ? https : http;
+  const request = client.request(
+    url,
+    {
+      method,
+      headers: payload
+        ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) }
+        : undefined
+    },
+    onResponse
+  );
+  request.on('error', onError);
+  request.end(payload);
+  return request;
+}
+
+function readErrorMessage(text: string): string {
+  try {
+    const parsed = JSON.parse(text) as { error?: string };
+    return parsed.error || text;
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Path utilities for Aider VS Code Extension
+ * Formats file paths the way Aider's slash commands expect them
+ */
+
+import * as path from 'path';
+
+/**
+ * Quote a path for an Aider slash command when it contains spaces
+ * @param filePath Path as typed in the chat
+ * @returns Path safe to append to /add, /drop, /read-only...
+ */
+export function quotePath(filePath: string): string {
+  return /\s/.test(filePath) ? `"${filePath}"` : filePath;
+}
+
+/**
+ * Express a file path relative to a session's working folder
+ * @param workspaceFolder Folder Aider runs in
+ * @param fsPath Absolute file path
+ * @returns Relative path, or the absolute path for files outside the folder
+ */
+export function toSessionPath(workspaceFolder: string, fsPath: string): string {
+  const relative = path.relative(workspaceFolder, fsPath);
+  if (!relative) {
+    return '.';
+  }
+  return relative.startsWith('..') || path.isAbsolute(relative) ? fsPath : relative;
+}
@@ -52,12 +52,14 @@ export function throttle<T extends (...args: unknown[]) => unknown>(
  * @param func Function to retry
  * @param maxRetries Maximum number of retries
  * @param baseDelay Base delay in milliseconds
+ * @param shouldRetry Predicate deciding whether a failure is worth another attempt
  * @returns Promise that resolves when function succeeds or rejects after max retries
  */
 export async function retryWithBackoff<T>(
   func: () => Promise<T> | T,
   maxRetries: number = 3,
-  baseDelay: number = 1000
+  baseDelay: number = 1000,
+  shouldRetry: (error: Error, attempt: number) => boolean = () => true
 ): Promise<T> {
   let lastError: Error;
 
@@ -67,7 +69,7 @@ export async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error as Error;
 
-      if (attempt === maxRetries) {
+      if (attempt === maxRetries || !shouldRetry(lastError, attempt)) {
         throw lastError;
       }
 
@@ -6,8 +6,7 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { HtmlTemplateData } from '../types';
-import { EXTENSION_CONFIG } from '../config/constants';
+import { HtmlTemplateData, ModelConfig } from '../types';
 
 export class WebViewHelper {
   private readonly extensionPath: string;
@@ -20,9 +19,9 @@ export class WebViewHelper {
   /**
    * Generate HTML for webview with proper security headers
    */
-  generateHtml(webview: vscode.Webview): string {
+  generateHtml(webview: vscode.Webview, models: ModelConfig[]): string {
     const template = this.getHtmlTemplate();
-    const templateData = this.buildTemplateData(webview);
+    const templateData = this.buildTemplateData(webview, models);
     const processedTemplate = this.processTemplate(template, templateData);
 
     // Inject xterm scripts
@@ -68,10 +67,10 @@ export class WebViewHelper {
   /**
    * Build template data for HTML generation
    */
-  private buildTemplateData(webview: vscode.Webview): HtmlTemplateData {
+  private buildTemplateData(webview: vscode.Webview, models: ModelConfig[]): HtmlTemplateData {
     return {
       cspSource: webview.cspSource,
-      modelOptions: this.generateModelOptions(),
+      modelOptions: this.generateModelOptions(models),
       nonce: this.generateNonce()
     };
   }
@@ -198,11 +197,13 @@ export class WebViewHelper {
   /**
    * Generate model options HTML
    */
-  private generateModelOptions(): string {
-    return EXTENSION_CONFIG.AVAILABLE_MODELS.map(
-      (model: { id: string; displayName: string }) =>
-        `<option value="${this.escapeHtml(model.id)}">${this.escapeHtml(model.displayName)}</option>`
-    ).join('\n            ');
+  private generateModelOptions(models: ModelConfig[]): string {
+    return models
+      .map(
+        model =>
+          `<option value="${this.escapeHtml(model.id)}">${this.escapeHtml(model.displayName)}</option>`
+      )
+      .join('\n            ');
   }
 
   /**